@@ -0,0 +1,25 @@
+// Marks accounts created before email verification existed as verified, so
+// existing customers can keep ordering and reviewing.
+// Run once after deploying:  npm run db:backfill-email-verification
+// An ISO date argument limits it to accounts created before that time.
+import { db } from '@/lib/db';
+import { backfillEmailVerification } from '@/lib/email-verification';
+
+async function main() {
+  const createdBefore = process.argv[2] ? new Date(process.argv[2]) : new Date();
+
+  if (Number.isNaN(createdBefore.getTime())) {
+    throw new Error(`Invalid date: ${process.argv[2]}`);
+  }
+
+  const result = await backfillEmailVerification(createdBefore);
+
+  console.log(`Marked ${result.verified} existing accounts as verified`);
+}
+
+main()
+  .catch(error => {
+    console.error('Email verification backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
@@ -0,0 +1,21 @@
+// Moves the old Product.images JSON strings into ProductImage rows.
+// Run once after `prisma db push`:  npm run db:migrate-images
+import { db } from '@/lib/db';
+import { migrateLegacyProductImages } from '@/lib/product-images';
+
+async function main() {
+  const result = await migrateLegacyProductImages();
+
+  console.log(`Migrated ${result.images} images from ${result.migrated} products`);
+
+  for (const failure of result.failed) {
+    console.warn(`Skipped product ${failure.productId}: ${failure.reason}`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Image migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
@@ -0,0 +1,19 @@
+// Archives products that were switched off before product statuses existed,
+// so public queries don't show them.
+// Run once after `prisma db push`, before starting the server:
+//   npm run db:migrate-status
+import { db } from '@/lib/db';
+import { migrateLegacyProductStatus } from '@/lib/product-schedule';
+
+async function main() {
+  const result = await migrateLegacyProductStatus();
+
+  console.log(`Archived ${result.archived} inactive products`);
+}
+
+main()
+  .catch(error => {
+    console.error('Product status migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
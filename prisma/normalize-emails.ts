@@ -0,0 +1,22 @@
+// Lowercases stored emails, so accounts registered with mixed-case
+// addresses are found by login, password reset and sign-in linking.
+// Run once after deploying:  npm run db:normalize-emails
+import { db } from '@/lib/db';
+import { normalizeStoredEmails } from '@/lib/account';
+
+async function main() {
+  const result = await normalizeStoredEmails();
+
+  console.log(`Normalized ${result.normalized} emails`);
+
+  for (const conflict of result.conflicts) {
+    console.warn(`Skipped user ${conflict.userId}: ${conflict.email} clashes with another account`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Email normalization failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
@@ -1,5 +1,7 @@
 // server.ts - Next.js Standalone + Socket.IO
 import { setupSocket } from '@/lib/socket';
+import { startProductScheduleSweep } from '@/lib/product-schedule';
+import { REMOTE_ADDRESS_HEADER } from '@/lib/sessions';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import next from 'next';
@@ -28,6 +30,8 @@ async function createCustomServer() {
       if (req.url?.startsWith('/api/socketio')) {
         return;
       }
+      // Route handlers can't see the socket; getClientIp reads this
+      req.headers[REMOTE_ADDRESS_HEADER] = req.socket.remoteAddress ?? '';
       handle(req, res);
     });
 
@@ -42,6 +46,9 @@ async function createCustomServer() {
 
     setupSocket(io);
 
+    // Publish and unpublish scheduled products on time
+    startProductScheduleSweep();
+
     // Start the server
     server.listen(currentPort, hostname, () => {
       console.log(`> Ready on http://${hostname}:${currentPort}`);
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { requireAdmin } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'analytics:read');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
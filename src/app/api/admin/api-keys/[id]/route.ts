@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { toPublicApiKey } from '@/lib/api-keys';
+
+// DELETE revoke an API key (admin only). The row is kept for the audit trail.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'api-keys:manage');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const existingKey = await db.apiKey.findUnique({
+      where: { id: params.id }
+    });
+
+    if (!existingKey) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existingKey.revokedAt) {
+      return NextResponse.json(
+        { error: 'API key is already revoked' },
+        { status: 400 }
+      );
+    }
+
+    const revokedKey = await db.apiKey.update({
+      where: { id: params.id },
+      data: { revokedAt: new Date() }
+    });
+
+    await recordAudit(request, authResult, {
+      action: 'api_key.revoke',
+      entityType: 'ApiKey',
+      entityId: params.id,
+      before: { revokedAt: null },
+      after: { revokedAt: revokedKey.revokedAt },
+      metadata: { name: revokedKey.name, prefix: revokedKey.prefix }
+    });
+
+    return NextResponse.json({
+      message: 'API key revoked successfully',
+      apiKey: toPublicApiKey(revokedKey)
+    });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { generateApiKey, toPublicApiKey } from '@/lib/api-keys';
+import { getRolePermissions, PERMISSIONS } from '@/lib/permissions';
+
+const apiKeyCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(PERMISSIONS)).min(1),
+  expiresAt: z.string().datetime().optional(),
+});
+
+// GET all API keys (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'api-keys:manage');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeRevoked = searchParams.get('includeRevoked') === 'true';
+
+    const apiKeys = await db.apiKey.findMany({
+      where: includeRevoked ? {} : { revokedAt: null },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return NextResponse.json({
+      apiKeys: apiKeys.map(toPublicApiKey)
+    });
+  } catch (error) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST create an API key owned by the current admin. The key is returned
+// only in this response.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = apiKeyCreateSchema.parse(body);
+
+    // Check admin permission
+    const authResult = await requirePermission(request, 'api-keys:manage');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    // Keys can't be minted from another key
+    if (authResult.apiKey) {
+      return NextResponse.json(
+        { error: 'API keys cannot be used for this endpoint', code: 'API_KEY_NOT_ALLOWED' },
+        { status: 403 }
+      );
+    }
+
+    // A key can't grant more than its owner has
+    const ownerPermissions = await getRolePermissions(authResult.role);
+    const missingScopes = validatedData.scopes.filter(scope => !ownerPermissions.includes(scope));
+
+    if (missingScopes.length > 0) {
+      return NextResponse.json(
+        { error: 'Scopes exceed your own permissions', scopes: missingScopes },
+        { status: 400 }
+      );
+    }
+
+    const expiresAt = validatedData.expiresAt ? new Date(validatedData.expiresAt) : null;
+
+    if (expiresAt && expiresAt <= new Date()) {
+      return NextResponse.json(
+        { error: 'Expiry must be in the future' },
+        { status: 400 }
+      );
+    }
+
+    const { key, prefix, secretHash } = generateApiKey();
+
+    const apiKey = await db.apiKey.create({
+      data: {
+        userId: authResult.id,
+        name: validatedData.name,
+        prefix,
+        secretHash,
+        scopes: JSON.stringify(Array.from(new Set(validatedData.scopes))),
+        expiresAt
+      }
+    });
+
+    await recordAudit(request, authResult, {
+      action: 'api_key.create',
+      entityType: 'ApiKey',
+      entityId: apiKey.id,
+      after: toPublicApiKey(apiKey)
+    });
+
+    return NextResponse.json({
+      apiKey: toPublicApiKey(apiKey),
+      key
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requirePermission } from '@/lib/auth';
+import { pageArgs, paginateResults, parsePagination, sortOrderBy, withCursor } from '@/lib/pagination';
+
+const DEFAULT_LIMIT = 20;
+
+function parseJson(value: string | null) {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// GET audit log entries, newest first (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const actorId = searchParams.get('actorId');
+    const action = searchParams.get('action');
+    const entityType = searchParams.get('entityType');
+    const entityId = searchParams.get('entityId');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    const pagination = parsePagination(searchParams, { defaultLimit: DEFAULT_LIMIT });
+    if (pagination instanceof NextResponse) {
+      return pagination;
+    }
+
+    // Check admin permission
+    const authResult = await requirePermission(request, 'audit:read');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const where: any = {};
+
+    if (actorId) {
+      where.actorId = actorId;
+    }
+
+    if (action) {
+      // "product." matches every product action
+      where.action = action.endsWith('.') ? { startsWith: action } : action;
+    }
+
+    if (entityType) {
+      where.entityType = entityType;
+    }
+
+    if (entityId) {
+      where.entityId = entityId;
+    }
+
+    if (from || to) {
+      const fromDate = from ? new Date(from) : null;
+      const toDate = to ? new Date(to) : null;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return NextResponse.json(
+          { error: 'from and to must be valid dates' },
+          { status: 400 }
+        );
+      }
+
+      where.createdAt = {
+        ...(fromDate && { gte: fromDate }),
+        ...(toDate && { lte: toDate })
+      };
+    }
+
+    const [entriesPage, total] = await Promise.all([
+      db.auditLog.findMany({
+        where: withCursor(where, pagination),
+        include: {
+          actor: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true
+            }
+          }
+        },
+        orderBy: sortOrderBy(),
+        ...pageArgs(pagination),
+      }),
+      db.auditLog.count({ where })
+    ]);
+
+    const { items: entries, pagination: pageInfo } = paginateResults(pagination, entriesPage, total);
+
+    return NextResponse.json({
+      entries: entries.map(entry => ({
+        ...entry,
+        changes: parseJson(entry.changes),
+        metadata: parseJson(entry.metadata)
+      })),
+      pagination: pageInfo
+    });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { requireAdmin } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { syncProductStock } from '@/lib/variants';
 
 export async function GET(request: NextRequest) {
   try {
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'inventory:read');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -44,6 +46,16 @@ export async function GET(request: NextRequest) {
             slug: true
           }
         },
+        variants: {
+          select: {
+            id: true,
+            name: true,
+            sku: true,
+            stock: true,
+            isActive: true
+          },
+          orderBy: { position: 'asc' }
+        },
         orderItems: {
           select: {
             quantity: true,
@@ -76,6 +88,10 @@ export async function GET(request: NextRequest) {
 
     // Calculate stock value
     const totalStockValue = products.reduce((sum, product) => sum + (product.stock * product.price), 0);
+    const lowStockVariantCount = products
+      .flatMap(product => product.variants)
+      .filter(v => v.isActive && v.stock <= 10)
+      .length;
 
     // Get recent stock movements (from orders)
     const recentOrders = await db.orderItem.findMany({
@@ -93,6 +109,13 @@ export async function GET(request: NextRequest) {
             sku: true
           }
         },
+        variant: {
+          select: {
+            id: true,
+            name: true,
+            sku: true
+          }
+        },
         order: {
           select: {
             orderNumber: true,
@@ -111,6 +134,7 @@ export async function GET(request: NextRequest) {
         totalStockValue,
         lowStockCount,
         outOfStockCount,
+        lowStockVariantCount,
         averageStockPerProduct: totalProducts > 0 ? Math.round(totalStock / totalProducts) : 0
       },
       recentMovements: recentOrders
@@ -126,14 +150,14 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'inventory:write');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
 
     const body = await request.json();
-    const { productId, quantity, operation, reason } = body;
+    const { productId, variantId, quantity, operation, reason } = body;
 
     if (!productId || !quantity || !operation) {
       return NextResponse.json(
@@ -161,23 +185,56 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Products with variants keep their stock on the variants
+    const variant = variantId
+      ? await db.productVariant.findFirst({ where: { id: variantId, productId } })
+      : null;
+
+    if (variantId && !variant) {
+      return NextResponse.json(
+        { error: 'Variant not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!variant && await db.productVariant.count({ where: { productId } }) > 0) {
+      return NextResponse.json(
+        { error: 'Variant ID is required for products with variants', code: 'VARIANT_REQUIRED' },
+        { status: 400 }
+      );
+    }
+
+    const previousStock = variant ? variant.stock : product.stock;
+
     let newStock;
     switch (operation) {
       case 'add':
-        newStock = product.stock + quantity;
+        newStock = previousStock + quantity;
         break;
       case 'subtract':
-        newStock = Math.max(0, product.stock - quantity);
+        newStock = Math.max(0, previousStock - quantity);
         break;
       case 'set':
         newStock = Math.max(0, quantity);
         break;
     }
 
-    // Update product stock
-    const updatedProduct = await db.product.update({
+    // Update variant or product stock
+    if (variant) {
+      await db.productVariant.update({
+        where: { id: variant.id },
+        data: { stock: newStock }
+      });
+      await syncProductStock(productId);
+    } else {
+      await db.product.update({
+        where: { id: productId },
+        data: { stock: newStock }
+      });
+    }
+
+    const updatedProduct = await db.product.findUnique({
       where: { id: productId },
-      data: { stock: newStock },
       include: {
         category: {
           select: {
@@ -185,13 +242,33 @@ export async function POST(request: NextRequest) {
             name: true,
             slug: true
           }
+        },
+        variants: {
+          select: {
+            id: true,
+            name: true,
+            sku: true,
+            stock: true,
+            isActive: true
+          },
+          orderBy: { position: 'asc' }
         }
       }
     });
 
+    await recordAudit(request, authResult, {
+      action: 'inventory.adjust',
+      entityType: variant ? 'ProductVariant' : 'Product',
+      entityId: variant ? variant.id : productId,
+      before: { stock: previousStock },
+      after: { stock: newStock },
+      metadata: { operation, quantity, reason: reason ?? null, ...(variant && { productId }) }
+    });
+
     return NextResponse.json({
       product: updatedProduct,
-      previousStock: product.stock,
+      ...(variant && { variantId: variant.id }),
+      previousStock,
       newStock,
       operation,
       quantity,
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-import { requireAdmin } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { adjustStock, availableStock } from '@/lib/variants';
 
 const orderUpdateSchema = z.object({
   status: z.enum(['PENDING', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED']).optional(),
@@ -21,8 +23,8 @@ export async function GET(request: NextRequest) {
 
     const skip = (page - 1) * limit;
 
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'orders:read');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -111,8 +113,8 @@ export async function PUT(
     const body = await request.json();
     const validatedData = orderUpdateSchema.parse(body);
 
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'orders:update');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -132,30 +134,19 @@ export async function PUT(
       );
     }
 
-    // If order is being cancelled, restore stock
+    // If order is being cancelled, restore stock. Items are adjusted one at a
+    // time because variant changes also recompute the product total.
     if (validatedData.status === 'CANCELLED' && existingOrder.status !== 'CANCELLED') {
-      await Promise.all(
-        existingOrder.items.map(item =>
-          db.product.update({
-            where: { id: item.productId },
-            data: {
-              stock: { increment: item.quantity }
-            }
-          })
-        )
-      );
+      for (const item of existingOrder.items) {
+        await adjustStock(item, item.quantity);
+      }
     }
 
     // If order is being moved from cancelled to another status, deduct stock
     if (existingOrder.status === 'CANCELLED' && validatedData.status !== 'CANCELLED') {
       // Check if enough stock is available
       const stockChecks = await Promise.all(
-        existingOrder.items.map(async item => {
-          const product = await db.product.findUnique({
-            where: { id: item.productId }
-          });
-          return product && product.stock >= item.quantity;
-        })
+        existingOrder.items.map(async item => await availableStock(item) >= item.quantity)
       );
 
       if (stockChecks.some(check => !check)) {
@@ -166,16 +157,9 @@ export async function PUT(
       }
 
       // Deduct stock
-      await Promise.all(
-        existingOrder.items.map(item =>
-          db.product.update({
-            where: { id: item.productId },
-            data: {
-              stock: { decrement: item.quantity }
-            }
-          })
-        )
-      );
+      for (const item of existingOrder.items) {
+        await adjustStock(item, -item.quantity);
+      }
     }
 
     const updatedOrder = await db.order.update({
@@ -203,6 +187,17 @@ export async function PUT(
       }
     });
 
+    await recordAudit(request, authResult, {
+      action: validatedData.status === 'CANCELLED' && existingOrder.status !== 'CANCELLED'
+        ? 'order.cancel'
+        : 'order.update',
+      entityType: 'Order',
+      entityId: params.id,
+      before: existingOrder,
+      after: updatedOrder,
+      metadata: { orderNumber: updatedOrder.orderNumber }
+    });
+
     return NextResponse.json(updatedOrder);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1,21 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { requireAdmin } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { pageArgs, paginateResults, parsePagination, sortOrderBy, withCursor } from '@/lib/pagination';
 
 // GET all orders (admin only)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
     const status = searchParams.get('status');
     const paymentStatus = searchParams.get('paymentStatus');
     const search = searchParams.get('search');
 
-    const skip = (page - 1) * limit;
+    const pagination = parsePagination(searchParams);
+    if (pagination instanceof NextResponse) {
+      return pagination;
+    }
 
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'orders:read');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -38,9 +40,9 @@ export async function GET(request: NextRequest) {
       ];
     }
 
-    const [orders, total] = await Promise.all([
+    const [ordersPage, total] = await Promise.all([
       db.order.findMany({
-        where,
+        where: withCursor(where, pagination),
         include: {
           user: {
             select: {
@@ -70,21 +72,17 @@ export async function GET(request: NextRequest) {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
+        orderBy: sortOrderBy(),
+        ...pageArgs(pagination),
       }),
       db.order.count({ where })
     ]);
 
+    const { items: orders, pagination: pageInfo } = paginateResults(pagination, ordersPage, total);
+
     return NextResponse.json({
       orders,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+      pagination: pageInfo
     });
   } catch (error) {
     console.error('Error fetching orders:', error);
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-import { requireAdmin } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { removeProductFromIndex } from '@/lib/search';
 
 const bulkOperationSchema = z.object({
   operation: z.enum(['activate', 'deactivate', 'delete', 'updatePrice', 'updateStock']),
@@ -17,26 +19,55 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { operation, productIds, data } = bulkOperationSchema.parse(body);
 
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
 
+    // Snapshot the affected products so the audit log shows what changed
+    const productsBefore = await db.product.findMany({
+      where: { id: { in: productIds } },
+      select: {
+        id: true,
+        name: true,
+        price: true,
+        stock: true,
+        status: true,
+        isActive: true
+      }
+    });
+
     let result;
+    // Selected products the operation left alone
+    let skippedIds: string[] = [];
 
     switch (operation) {
-      case 'activate':
-        result = await db.product.updateMany({
-          where: { id: { in: productIds } },
-          data: { isActive: true }
-        });
+      case 'activate': {
+        // Activating puts products on sale now, so schedule times that
+        // would hide them again are dropped
+        const now = new Date();
+        [result] = await db.$transaction([
+          db.product.updateMany({
+            where: { id: { in: productIds } },
+            data: { status: 'ACTIVE', isActive: true }
+          }),
+          db.product.updateMany({
+            where: { id: { in: productIds }, publishAt: { gt: now } },
+            data: { publishAt: null }
+          }),
+          db.product.updateMany({
+            where: { id: { in: productIds }, unpublishAt: { lte: now } },
+            data: { unpublishAt: null }
+          })
+        ]);
         break;
+      }
 
       case 'deactivate':
         result = await db.product.updateMany({
           where: { id: { in: productIds } },
-          data: { isActive: false }
+          data: { status: 'ARCHIVED', isActive: false }
         });
         break;
 
@@ -70,6 +101,10 @@ export async function POST(request: NextRequest) {
             }
           }
         });
+
+        for (const productId of productIds) {
+          await removeProductFromIndex(productId);
+        }
         break;
 
       case 'updatePrice':
@@ -94,8 +129,14 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        // Products with variants are skipped; their stock is the variant total
+        skippedIds = (await db.product.findMany({
+          where: { id: { in: productIds }, variants: { some: {} } },
+          select: { id: true }
+        })).map(product => product.id);
+
         result = await db.product.updateMany({
-          where: { id: { in: productIds } },
+          where: { id: { in: productIds, notIn: skippedIds }, variants: { none: {} } },
           data: { stock: data.stock }
         });
         break;
@@ -107,10 +148,32 @@ export async function POST(request: NextRequest) {
         );
     }
 
+    const changedFields: Record<string, Record<string, any>> = {
+      activate: { status: 'ACTIVE', isActive: true },
+      deactivate: { status: 'ARCHIVED', isActive: false },
+      delete: {},
+      updatePrice: { price: data?.price },
+      updateStock: { stock: data?.stock }
+    };
+
+    const updatedProducts = productsBefore.filter(product => !skippedIds.includes(product.id));
+
+    await Promise.all(updatedProducts.map(product =>
+      recordAudit(request, authResult, {
+        action: operation === 'delete' ? 'product.delete' : 'product.update',
+        entityType: 'Product',
+        entityId: product.id,
+        before: product,
+        after: operation === 'delete' ? null : { ...product, ...changedFields[operation] },
+        metadata: { bulkOperation: operation }
+      })
+    ));
+
     return NextResponse.json({
       message: `Bulk ${operation} completed successfully`,
       affectedCount: result.count,
-      operation
+      operation,
+      ...(skippedIds.length > 0 ? { skippedIds } : {})
     });
 
   } catch (error) {
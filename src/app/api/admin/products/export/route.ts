@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { exportProductsCsv } from '@/lib/product-csv';
+
+// GET the whole catalog as CSV, in the format the import accepts
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const csv = await exportProductsCsv();
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="products-${date}.csv"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting products:', error);
+    return NextResponse.json(
+      { error: 'Failed to export products' },
+      { status: 500 }
+    );
+  }
+}
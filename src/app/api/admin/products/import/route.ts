@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { indexProducts } from '@/lib/search';
+import { applyProductImport, planProductImport } from '@/lib/product-csv';
+
+const MAX_IMPORT_SIZE = 5 * 1024 * 1024; // 5MB
+
+// POST import products from CSV, as a `file` form field or the raw request
+// body. `?dryRun=true` only validates. Otherwise every row must be valid
+// and all of them are applied together, or none are.
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get('dryRun') === 'true';
+
+    let text: string;
+
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const data = await request.formData();
+      const file: File | null = data.get('file') as unknown as File;
+
+      if (!file) {
+        return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+      }
+
+      if (file.size > MAX_IMPORT_SIZE) {
+        return NextResponse.json(
+          { error: 'File too large. Maximum size is 5MB.' },
+          { status: 400 }
+        );
+      }
+
+      text = await file.text();
+    } else {
+      text = await request.text();
+
+      if (Buffer.byteLength(text) > MAX_IMPORT_SIZE) {
+        return NextResponse.json(
+          { error: 'File too large. Maximum size is 5MB.' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const plan = await planProductImport(text);
+
+    if ('error' in plan) {
+      return NextResponse.json(
+        { error: plan.error },
+        { status: 400 }
+      );
+    }
+
+    const { changes, ...report } = plan;
+
+    if (dryRun) {
+      return NextResponse.json({ dryRun, ...report });
+    }
+
+    if (!plan.valid) {
+      return NextResponse.json(
+        {
+          error: 'Some rows are invalid; no products were changed',
+          code: 'IMPORT_INVALID',
+          dryRun,
+          ...report
+        },
+        { status: 400 }
+      );
+    }
+
+    const applied = await applyProductImport(plan);
+
+    await indexProducts(applied.map(({ after }) => after.id));
+
+    await Promise.all(applied.map(({ before, after }) =>
+      recordAudit(request, authResult, {
+        action: before ? 'product.update' : 'product.create',
+        entityType: 'Product',
+        entityId: after.id,
+        before,
+        after,
+        metadata: { import: true }
+      })
+    ));
+
+    return NextResponse.json({ dryRun, ...report });
+  } catch (error) {
+    console.error('Error importing products:', error);
+    return NextResponse.json(
+      { error: 'Failed to import products' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getRolePermissions, PERMISSIONS, setRolePermissions, STAFF_ROLES } from '@/lib/permissions';
+
+const rolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+// PUT replace the permissions assigned to a staff role (admin only)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { role: string } }
+) {
+  try {
+    const body = await request.json();
+    const { permissions } = rolePermissionsSchema.parse(body);
+
+    // Check admin permission
+    const authResult = await requirePermission(request, 'roles:manage');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const role = STAFF_ROLES.find(staffRole => staffRole === params.role.toUpperCase());
+
+    if (!role) {
+      return NextResponse.json(
+        { error: `Only staff roles can be edited: ${STAFF_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const previousPermissions = await getRolePermissions(role);
+    const savedPermissions = await setRolePermissions(role, permissions);
+
+    await recordAudit(request, authResult, {
+      action: 'role.permissions_update',
+      entityType: 'Role',
+      entityId: role,
+      before: { permissions: previousPermissions },
+      after: { permissions: savedPermissions }
+    });
+
+    return NextResponse.json({
+      role,
+      permissions: savedPermissions
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating role permissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to update role permissions' },
+      { status: 500 }
+    );
+  }
+}
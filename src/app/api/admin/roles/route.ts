@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { getRolePermissions, PERMISSIONS, STAFF_ROLES } from '@/lib/permissions';
+
+// GET staff roles with their current permissions
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'roles:manage');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const roles = await Promise.all(
+      STAFF_ROLES.map(async role => ({
+        role,
+        permissions: await getRolePermissions(role)
+      }))
+    );
+
+    return NextResponse.json({
+      roles,
+      availablePermissions: PERMISSIONS
+    });
+  } catch (error) {
+    console.error('Error fetching roles:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch roles' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { requireAdmin } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { UPLOADS_URL_PREFIX } from '@/lib/uploads';
+import { processUploadedImage } from '@/lib/image-processing';
 
 export async function POST(request: NextRequest) {
   try {
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'media:upload');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -39,28 +40,41 @@ export async function POST(request: NextRequest) {
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
-    // Create uploads directory if it doesn't exist
-    const uploadsDir = join(process.cwd(), 'public', 'uploads');
-    try {
-      await mkdir(uploadsDir, { recursive: true });
-    } catch (error) {
-      // Directory might already exist
-    }
-
-    // Generate unique filename
-    const timestamp = Date.now();
-    const filename = `${timestamp}-${file.name.replace(/[^a-zA-Z0-9.-]/g, '')}`;
-    const filepath = join(uploadsDir, filename);
+    // The MIME type is only what the client claims; the pipeline decodes
+    // the file, strips its metadata and writes the renditions
+    const manifest = await processUploadedImage(buffer, file.name);
 
-    await writeFile(filepath, buffer);
+    if ('error' in manifest) {
+      return NextResponse.json(
+        { error: manifest.error },
+        { status: 400 }
+      );
+    }
 
     // Return the public URL
-    const publicUrl = `/uploads/${filename}`;
+    const publicUrl = manifest.original.url;
+    const filename = publicUrl.slice(UPLOADS_URL_PREFIX.length);
+
+    await recordAudit(request, authResult, {
+      action: 'media.upload',
+      entityType: 'Media',
+      entityId: filename,
+      metadata: {
+        url: publicUrl,
+        type: file.type,
+        size: file.size,
+        format: manifest.original.format,
+        width: manifest.original.width,
+        height: manifest.original.height,
+        renditions: manifest.variants.length
+      }
+    });
 
     return NextResponse.json({
       message: 'File uploaded successfully',
       url: publicUrl,
-      filename: filename
+      filename: filename,
+      manifest
     });
   } catch (error) {
     console.error('Error uploading file:', error);
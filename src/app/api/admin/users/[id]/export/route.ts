@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  buildUserDataExport,
+  userDataExportFilename,
+  userDataExportResponseBody
+} from '@/lib/data-export';
+
+// GET export all data held about a user (?format=json|zip), e.g. to answer a
+// data subject access request. Every export is written to the audit log.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'users:export');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') === 'zip' ? 'zip' : 'json';
+
+    const data = await buildUserDataExport(params.id);
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, authResult, {
+      action: 'user.export',
+      entityType: 'User',
+      entityId: params.id,
+      metadata: { format, requestedBy: 'admin' }
+    });
+
+    const { body, contentType } = userDataExportResponseBody(data, format);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${userDataExportFilename(params.id, format)}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting user data:', error);
+    return NextResponse.json(
+      { error: 'Failed to export user data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { createImpersonationSession } from '@/lib/sessions';
+
+const impersonateSchema = z.object({
+  reason: z.string().min(1).max(500),
+});
+
+// POST start a short-lived session as a customer, e.g. to reproduce a
+// checkout problem. The token is read-only for account changes.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { reason } = impersonateSchema.parse(body);
+
+    // Check admin permission
+    const authResult = await requirePermission(request, 'users:impersonate');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    // Only a person at the keyboard may impersonate, not a script or
+    // another impersonation session
+    if (authResult.apiKey || authResult.impersonator) {
+      return NextResponse.json(
+        { error: 'Impersonation must be started from an admin session' },
+        { status: 403 }
+      );
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        deletedAt: true
+      }
+    });
+
+    if (!user || user.deletedAt) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Staff accounts are never impersonated; that would hand out their permissions
+    if (user.role !== 'USER') {
+      return NextResponse.json(
+        { error: 'Only customer accounts can be impersonated' },
+        { status: 400 }
+      );
+    }
+
+    const { token, expiresIn, sessionId, expiresAt } = await createImpersonationSession(
+      user,
+      authResult,
+      request
+    );
+
+    await recordAudit(request, authResult, {
+      action: 'user.impersonate',
+      entityType: 'User',
+      entityId: user.id,
+      metadata: { sessionId, reason, expiresAt }
+    });
+
+    return NextResponse.json({
+      token,
+      expiresIn,
+      impersonation: {
+        sessionId,
+        expiresAt,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name
+        },
+        impersonator: {
+          id: authResult.id,
+          email: authResult.email,
+          name: authResult.name
+        }
+      }
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error starting impersonation:', error);
+    return NextResponse.json(
+      { error: 'Failed to start impersonation' },
+      { status: 500 }
+    );
+  }
+}
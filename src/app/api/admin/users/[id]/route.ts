@@ -1,15 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-import { requireAdmin } from '@/lib/auth';
-import { hashPassword } from '@/lib/auth';
+import { requirePermission, userHasPermission } from '@/lib/auth';
+import { hashPassword, normalizeEmail } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { revokeAllSessions } from '@/lib/sessions';
+import { clearFailedLogins } from '@/lib/account-lockout';
+import { resetRateLimit } from '@/lib/rate-limit';
+import { isBackOfficeRole } from '@/lib/permissions';
 
 const userUpdateSchema = z.object({
   name: z.string().min(1).optional(),
   phone: z.string().optional(),
   address: z.string().optional(),
-  role: z.enum(['USER', 'ADMIN']).optional(),
+  role: z.enum(['USER', 'ADMIN', 'WAREHOUSE', 'SUPPORT', 'MARKETING']).optional(),
   password: z.string().min(6).optional(),
+  unlock: z.literal(true).optional(), // Clear failed logins and any lockout
 });
 
 // GET single user (admin only)
@@ -18,8 +24,8 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'users:read');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -33,6 +39,9 @@ export async function GET(
         phone: true,
         address: true,
         role: true,
+        failedLoginAttempts: true,
+        lastFailedLoginAt: true,
+        lockedUntil: true,
         createdAt: true,
         updatedAt: true,
         orders: {
@@ -97,12 +106,20 @@ export async function PUT(
     const body = await request.json();
     const validatedData = userUpdateSchema.parse(body);
 
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'users:write');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
 
+    // Changing roles is reserved for those who manage role permissions
+    if (validatedData.role && !(await userHasPermission(authResult, 'roles:manage'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions', permission: 'roles:manage' },
+        { status: 403 }
+      );
+    }
+
     // Check if user exists
     const existingUser = await db.user.findUnique({
       where: { id: params.id }
@@ -115,19 +132,36 @@ export async function PUT(
       );
     }
 
+    // Setting a staff member's password would let the caller sign in as
+    // them, so it takes the same permission as changing their role
+    if (
+      validatedData.password &&
+      isBackOfficeRole(existingUser.role) &&
+      !(await userHasPermission(authResult, 'roles:manage'))
+    ) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions', permission: 'roles:manage' },
+        { status: 403 }
+      );
+    }
+
+    const { unlock, ...userData } = validatedData;
+
+    if (unlock) {
+      await clearFailedLogins(params.id);
+      await resetRateLimit(`login:account:${normalizeEmail(existingUser.email)}`);
+    }
+
     // Prepare update data
     const updateData: any = {
-      ...validatedData
+      ...userData
     };
 
     // Hash password if provided
     if (validatedData.password) {
-      updateData.password = hashPassword(validatedData.password);
+      updateData.password = await hashPassword(validatedData.password);
     }
 
-    // Remove password from validatedData to avoid confusion
-    delete updateData.password;
-
     // Update user
     const updatedUser = await db.user.update({
       where: { id: params.id },
@@ -139,11 +173,55 @@ export async function PUT(
         phone: true,
         address: true,
         role: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
         createdAt: true,
         updatedAt: true
       }
     });
 
+    // A role change must not leave existing sessions running with the old role
+    if (validatedData.role && validatedData.role !== existingUser.role) {
+      await revokeAllSessions(params.id, 'role_changed');
+    }
+
+    // A reset password signs out everywhere and voids pending reset links,
+    // as a self-service reset does
+    if (validatedData.password) {
+      await db.passwordResetToken.updateMany({
+        where: { userId: params.id, usedAt: null },
+        data: { usedAt: new Date() }
+      });
+      await revokeAllSessions(params.id, 'password_reset');
+    }
+
+    await recordAudit(request, authResult, {
+      action: validatedData.role && validatedData.role !== existingUser.role
+        ? 'user.role_change'
+        : 'user.update',
+      entityType: 'User',
+      entityId: params.id,
+      before: {
+        email: existingUser.email,
+        name: existingUser.name,
+        phone: existingUser.phone,
+        address: existingUser.address,
+        role: existingUser.role,
+        lockedUntil: existingUser.lockedUntil
+      },
+      after: {
+        email: updatedUser.email,
+        name: updatedUser.name,
+        phone: updatedUser.phone,
+        address: updatedUser.address,
+        role: updatedUser.role,
+        lockedUntil: updatedUser.lockedUntil
+      },
+      metadata: unlock || validatedData.password
+        ? { unlocked: !!unlock, passwordReset: !!validatedData.password }
+        : undefined
+    });
+
     return NextResponse.json(updatedUser);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -167,8 +245,8 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'users:write');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -188,6 +266,14 @@ export async function DELETE(
       );
     }
 
+    // Removing staff is reserved for those who manage roles
+    if (isBackOfficeRole(existingUser.role) && !(await userHasPermission(authResult, 'roles:manage'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions', permission: 'roles:manage' },
+        { status: 403 }
+      );
+    }
+
     // Check if user has orders
     if (existingUser.orders.length > 0) {
       return NextResponse.json(
@@ -201,6 +287,17 @@ export async function DELETE(
       where: { id: params.id }
     });
 
+    await recordAudit(request, authResult, {
+      action: 'user.delete',
+      entityType: 'User',
+      entityId: params.id,
+      before: {
+        email: existingUser.email,
+        name: existingUser.name,
+        role: existingUser.role
+      }
+    });
+
     return NextResponse.json(
       { message: 'User deleted successfully' },
       { status: 200 }
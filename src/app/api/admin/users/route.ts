@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-import { requireAdmin } from '@/lib/auth';
-import { hashPassword } from '@/lib/auth';
+import { requirePermission, userHasPermission } from '@/lib/auth';
+import { hashPassword, normalizeEmail } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { pageArgs, paginateResults, parsePagination, sortOrderBy, withCursor } from '@/lib/pagination';
 
 const userUpdateSchema = z.object({
   name: z.string().min(1).optional(),
   phone: z.string().optional(),
   address: z.string().optional(),
-  role: z.enum(['USER', 'ADMIN']).optional(),
+  role: z.enum(['USER', 'ADMIN', 'WAREHOUSE', 'SUPPORT', 'MARKETING']).optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -18,22 +20,24 @@ const userCreateSchema = z.object({
   name: z.string().min(1).optional(),
   phone: z.string().optional(),
   address: z.string().optional(),
-  role: z.enum(['USER', 'ADMIN']).default('USER'),
+  role: z.enum(['USER', 'ADMIN', 'WAREHOUSE', 'SUPPORT', 'MARKETING']).default('USER'),
 });
 
 // GET all users (admin only)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
     const search = searchParams.get('search');
     const role = searchParams.get('role');
+    const locked = searchParams.get('locked');
 
-    const skip = (page - 1) * limit;
+    const pagination = parsePagination(searchParams);
+    if (pagination instanceof NextResponse) {
+      return pagination;
+    }
 
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'users:read');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -51,9 +55,13 @@ export async function GET(request: NextRequest) {
       where.role = role;
     }
 
-    const [users, total] = await Promise.all([
+    if (locked === 'true') {
+      where.lockedUntil = { gt: new Date() };
+    }
+
+    const [usersPage, total] = await Promise.all([
       db.user.findMany({
-        where,
+        where: withCursor(where, pagination),
         select: {
           id: true,
           email: true,
@@ -61,6 +69,8 @@ export async function GET(request: NextRequest) {
           phone: true,
           address: true,
           role: true,
+          failedLoginAttempts: true,
+          lockedUntil: true,
           createdAt: true,
           updatedAt: true,
           _count: {
@@ -70,21 +80,17 @@ export async function GET(request: NextRequest) {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
+        orderBy: sortOrderBy(),
+        ...pageArgs(pagination),
       }),
       db.user.count({ where })
     ]);
 
+    const { items: users, pagination: pageInfo } = paginateResults(pagination, usersPage, total);
+
     return NextResponse.json({
       users,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+      pagination: pageInfo
     });
   } catch (error) {
     console.error('Error fetching users:', error);
@@ -100,13 +106,22 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const validatedData = userCreateSchema.parse(body);
+    validatedData.email = normalizeEmail(validatedData.email);
 
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'users:write');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
 
+    // Creating anyone but a customer grants back-office access
+    if (validatedData.role !== 'USER' && !(await userHasPermission(authResult, 'roles:manage'))) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions', permission: 'roles:manage' },
+        { status: 403 }
+      );
+    }
+
     // Check if user already exists
     const existingUser = await db.user.findUnique({
       where: { email: validatedData.email }
@@ -120,13 +135,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Hash password
-    const hashedPassword = hashPassword(validatedData.password);
+    const hashedPassword = await hashPassword(validatedData.password);
 
-    // Create user
+    // Create user. The address is vouched for by the admin creating it, so
+    // it doesn't go through email verification.
     const user = await db.user.create({
       data: {
         ...validatedData,
-        password: hashedPassword
+        password: hashedPassword,
+        emailVerifiedAt: new Date()
       },
       select: {
         id: true,
@@ -140,6 +157,17 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    await recordAudit(request, authResult, {
+      action: 'user.create',
+      entityType: 'User',
+      entityId: user.id,
+      after: {
+        email: user.email,
+        name: user.name,
+        role: user.role
+      }
+    });
+
     return NextResponse.json(user, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requireAccountOwner, verifyPassword } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { tooManyRequests } from '@/lib/rate-limit';
+import { limitMfaAttempts, sendTwoFactorDisabledNotice, verifySecondFactor } from '@/lib/two-factor';
+
+const disableSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+}).refine(data => data.code || data.recoveryCode, {
+  message: 'Either code or recoveryCode is required',
+});
+
+// POST turn two-factor authentication off (requires password and a code)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { password, code, recoveryCode } = disableSchema.parse(body);
+
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: authResult.id }
+    });
+
+    if (!user || !user.twoFactorEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    const attemptLimit = await limitMfaAttempts(authResult.id);
+
+    if (!attemptLimit.allowed) {
+      return tooManyRequests(attemptLimit.retryAfterSeconds);
+    }
+
+    if (!user.password || !(await verifyPassword(password, user.password))) {
+      return NextResponse.json(
+        { error: 'Invalid password' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    await db.$transaction([
+      db.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null
+        }
+      }),
+      db.twoFactorRecoveryCode.deleteMany({
+        where: { userId: user.id }
+      })
+    ]);
+
+    await recordAudit(request, authResult, {
+      action: 'user.two_factor_disable',
+      entityType: 'User',
+      entityId: user.id
+    });
+
+    await sendTwoFactorDisabledNotice(user);
+
+    return NextResponse.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Two-factor disable error:', error);
+    return NextResponse.json(
+      { error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
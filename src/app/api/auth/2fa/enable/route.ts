@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requireAccountOwner } from '@/lib/auth';
+import { markSessionMfaVerified } from '@/lib/sessions';
+import { recordAudit } from '@/lib/audit';
+import { tooManyRequests } from '@/lib/rate-limit';
+import {
+  generateRecoveryCodes,
+  limitMfaAttempts,
+  sendTwoFactorEnabledNotice,
+  verifyTwoFactorSetupToken,
+  verifyUserTotp
+} from '@/lib/two-factor';
+
+const enableSchema = z.object({
+  code: z.string().min(1),
+  // Emailed by /setup
+  setupToken: z.string().min(1),
+});
+
+// POST confirm enrollment with a code from the authenticator app and the
+// setup token from the account's inbox
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { code, setupToken } = enableSchema.parse(body);
+
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: authResult.id }
+    });
+
+    if (!user || !user.twoFactorSecret) {
+      return NextResponse.json(
+        { error: 'Two-factor setup has not been started' },
+        { status: 400 }
+      );
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      );
+    }
+
+    if (!verifyTwoFactorSetupToken(setupToken, user)) {
+      return NextResponse.json(
+        { error: 'Invalid or expired setup token', code: 'INVALID_SETUP_TOKEN' },
+        { status: 400 }
+      );
+    }
+
+    const attemptLimit = await limitMfaAttempts(authResult.id);
+
+    if (!attemptLimit.allowed) {
+      return tooManyRequests(attemptLimit.retryAfterSeconds);
+    }
+
+    if (!(await verifyUserTotp(user, code))) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { twoFactorEnabledAt: new Date() }
+    });
+
+    // Proving possession of the authenticator also completes the second
+    // factor for the session that enrolled
+    await markSessionMfaVerified(authResult.sessionId);
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    await recordAudit(request, authResult, {
+      action: 'user.two_factor_enable',
+      entityType: 'User',
+      entityId: user.id
+    });
+
+    await sendTwoFactorEnabledNotice(user);
+
+    return NextResponse.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Two-factor enable error:', error);
+    return NextResponse.json(
+      { error: 'Failed to enable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
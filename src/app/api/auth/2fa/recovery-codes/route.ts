@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requireAccountOwner } from '@/lib/auth';
+import { generateRecoveryCodes, limitMfaAttempts, verifyUserTotp } from '@/lib/two-factor';
+import { tooManyRequests } from '@/lib/rate-limit';
+
+const regenerateSchema = z.object({
+  code: z.string().min(1),
+});
+
+// POST replace all recovery codes (requires a current TOTP code)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { code } = regenerateSchema.parse(body);
+
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: authResult.id }
+    });
+
+    if (!user || !user.twoFactorEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    const attemptLimit = await limitMfaAttempts(authResult.id);
+
+    if (!attemptLimit.allowed) {
+      return tooManyRequests(attemptLimit.retryAfterSeconds);
+    }
+
+    if (!(await verifyUserTotp(user, code))) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Recovery code generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate recovery codes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireAccountOwner } from '@/lib/auth';
+import { buildOtpAuthUri, generateTotpSecret } from '@/lib/totp';
+import { sendTwoFactorSetupEmail, TWO_FACTOR_ISSUER } from '@/lib/two-factor';
+
+// POST start enrollment: generate a pending secret for the authenticator app
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: authResult.id }
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      );
+    }
+
+    // The secret stays pending until a code from it is confirmed at /enable
+    // together with the setup token emailed to the account
+    const secret = generateTotpSecret();
+
+    await db.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: secret,
+        twoFactorLastUsedStep: null
+      }
+    });
+
+    await sendTwoFactorSetupEmail(user, secret);
+
+    return NextResponse.json({
+      secret,
+      otpauthUri: buildOtpAuthUri({
+        secret,
+        accountName: user.email,
+        issuer: TWO_FACTOR_ISSUER
+      })
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { toPublicUser } from '@/lib/auth';
+import { createSession } from '@/lib/sessions';
+import { sessionResponse } from '@/lib/auth-cookies';
+import { limitMfaAttempts, readMfaChallengeToken, verifySecondFactor } from '@/lib/two-factor';
+import { tooManyRequests } from '@/lib/rate-limit';
+
+const verifySchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional(),
+}).refine(data => data.code || data.recoveryCode, {
+  message: 'Either code or recoveryCode is required',
+});
+
+// POST second login step: exchange a challenge token and a code for a session
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { challengeToken, code, recoveryCode } = verifySchema.parse(body);
+
+    const challenge = readMfaChallengeToken(challengeToken);
+
+    if (!challenge) {
+      return NextResponse.json(
+        { error: 'Invalid or expired challenge token' },
+        { status: 401 }
+      );
+    }
+
+    const attemptLimit = await limitMfaAttempts(challenge.sub);
+
+    if (!attemptLimit.allowed) {
+      return tooManyRequests(attemptLimit.retryAfterSeconds);
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: challenge.sub }
+    });
+
+    if (!user || !user.twoFactorEnabledAt) {
+      return NextResponse.json(
+        { error: 'Invalid or expired challenge token' },
+        { status: 401 }
+      );
+    }
+
+    if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    const tokens = await createSession(user, request, {
+      mfaVerified: true
+    });
+
+    return sessionResponse(request, tokens, { user: toPublicUser(user) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Two-factor verification error:', error);
+    return NextResponse.json(
+      { error: 'Two-factor verification failed' },
+      { status: 500 }
+    );
+  }
+}
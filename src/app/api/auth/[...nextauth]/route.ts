@@ -0,0 +1,8 @@
+import NextAuth from 'next-auth';
+import { authOptions } from '@/lib/oidc';
+
+// OIDC sign-in handshake (/api/auth/signin/<provider>, /api/auth/callback/<provider>, ...).
+// The app's own auth routes are separate, more specific routes and take precedence.
+const handler = NextAuth(authOptions);
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { normalizeEmail } from '@/lib/auth';
+import { getClientIp, hashToken } from '@/lib/sessions';
+import { rateLimit, tooManyRequests } from '@/lib/rate-limit';
+import { appUrl, sendMail } from '@/lib/mailer';
+
+const RESET_TOKEN_TTL_MINUTES = 60;
+const RESET_WINDOW_MS = 60 * 60 * 1000;
+const RESET_LIMIT_PER_IP = 10;
+const RESET_LIMIT_PER_EMAIL = 3;
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+async function sendPasswordReset(user: { id: string; email: string; name: string | null }) {
+  // Only the most recent link should work
+  await db.passwordResetToken.updateMany({
+    where: { userId: user.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+
+  await db.passwordResetToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt
+    }
+  });
+
+  const resetUrl = appUrl(`/reset-password?token=${encodeURIComponent(token)}`);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Snazo password',
+    text: [
+      `Hi${user.name ? ` ${user.name}` : ''},`,
+      '',
+      'We received a request to reset your password. Use the link below to choose a new one:',
+      resetUrl,
+      '',
+      `The link expires in ${RESET_TOKEN_TTL_MINUTES} minutes and can only be used once.`,
+      'If you did not request this, you can ignore this email.'
+    ].join('\n')
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const email = normalizeEmail(forgotPasswordSchema.parse(body).email);
+
+    // Per client, and per address so one mailbox can't be flooded from many
+    // clients (counted whether or not the email is registered)
+    const [ipLimit, emailLimit] = await Promise.all([
+      rateLimit(`password-reset:ip:${getClientIp(request) ?? 'unknown'}`, {
+        limit: RESET_LIMIT_PER_IP,
+        windowMs: RESET_WINDOW_MS
+      }),
+      rateLimit(`password-reset:email:${email}`, {
+        limit: RESET_LIMIT_PER_EMAIL,
+        windowMs: RESET_WINDOW_MS
+      })
+    ]);
+
+    if (!ipLimit.allowed || !emailLimit.allowed) {
+      return tooManyRequests(Math.max(
+        ipLimit.allowed ? 0 : ipLimit.retryAfterSeconds,
+        emailLimit.allowed ? 0 : emailLimit.retryAfterSeconds
+      ));
+    }
+
+    const user = await db.user.findUnique({
+      where: { email }
+    });
+
+    // The link is issued after responding, so the response takes as long
+    // whether or not the email is registered
+    if (user) {
+      void sendPasswordReset(user).catch(error => {
+        console.error('Error sending password reset:', error);
+      });
+    }
+
+    // Same response whether or not the email is registered
+    return NextResponse.json({
+      message: 'If an account exists for this email, a password reset link has been sent'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Forgot password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process password reset request' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-import { generateToken, verifyPassword } from '@/lib/auth';
+import { randomBytes } from 'crypto';
+import { hashPassword, normalizeEmail, passwordNeedsRehash, toPublicUser, verifyPassword } from '@/lib/auth';
+import { createMfaChallengeToken, MFA_CHALLENGE_TTL_SECONDS } from '@/lib/two-factor';
+import { createSession, getClientIp } from '@/lib/sessions';
+import { sessionResponse } from '@/lib/auth-cookies';
+import { rateLimit, tooManyRequests } from '@/lib/rate-limit';
+import {
+  clearFailedLogins,
+  failedLoginDelayMs,
+  lockoutRetryAfterSeconds,
+  recordFailedLogin,
+  sleep
+} from '@/lib/account-lockout';
+
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_LIMIT_PER_IP = 30;
+const LOGIN_LIMIT_PER_ACCOUNT = 10;
+
+// Checked against for unknown emails, so they take as long to turn away as
+// a wrong password
+let unknownUserHash: Promise<string> | null = null;
 
 const loginSchema = z.object({
   email: z.string().email(),
@@ -11,7 +31,32 @@ const loginSchema = z.object({
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { email, password } = loginSchema.parse(body);
+    const parsed = loginSchema.parse(body);
+    const email = normalizeEmail(parsed.email);
+    const { password } = parsed;
+
+    // Throttle guessing per client and per targeted account (registered or not)
+    const [ipLimit, accountLimit] = await Promise.all([
+      rateLimit(`login:ip:${getClientIp(request) ?? 'unknown'}`, {
+        limit: LOGIN_LIMIT_PER_IP,
+        windowMs: LOGIN_WINDOW_MS
+      }),
+      rateLimit(`login:account:${email}`, {
+        limit: LOGIN_LIMIT_PER_ACCOUNT,
+        windowMs: LOGIN_WINDOW_MS
+      })
+    ]);
+
+    if (!ipLimit.allowed || !accountLimit.allowed) {
+      return tooManyRequests(Math.max(
+        ipLimit.allowed ? 0 : ipLimit.retryAfterSeconds,
+        accountLimit.allowed ? 0 : accountLimit.retryAfterSeconds
+      ));
+    }
+
+    // Attempts on this email in the current window, for delays that don't
+    // depend on whether the account exists
+    const accountAttempts = LOGIN_LIMIT_PER_ACCOUNT - accountLimit.remaining;
 
     // Find user by email
     const user = await db.user.findUnique({
@@ -19,6 +64,10 @@ export async function POST(request: NextRequest) {
     });
 
     if (!user || !user.password) {
+      unknownUserHash ??= hashPassword(randomBytes(16).toString('hex'));
+      await verifyPassword(password, await unknownUserHash);
+      await sleep(failedLoginDelayMs(accountAttempts));
+
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
@@ -26,29 +75,59 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify password
-    const isValidPassword = verifyPassword(password, user.password);
-    
+    const isValidPassword = await verifyPassword(password, user.password);
+
+    // Whether the account is locked is only revealed to someone who knows
+    // its password; everyone else gets the same answer as for an unknown
+    // email
     if (!isValidPassword) {
+      if (lockoutRetryAfterSeconds(user)) {
+        await sleep(failedLoginDelayMs(accountAttempts));
+      } else {
+        const { failedAttempts } = await recordFailedLogin(user.id);
+        await sleep(failedLoginDelayMs(failedAttempts));
+      }
+
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
       );
     }
 
-    // Generate token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      role: user.role
-    });
+    const lockedFor = lockoutRetryAfterSeconds(user);
+    if (lockedFor) {
+      return tooManyRequests(lockedFor, {
+        error: 'Account temporarily locked after repeated failed logins',
+        code: 'ACCOUNT_LOCKED'
+      });
+    }
 
-    // Return user data without password
-    const { password: _, ...userWithoutPassword } = user;
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await clearFailedLogins(user.id);
+    }
 
-    return NextResponse.json({
-      user: userWithoutPassword,
-      token
-    });
+    // Upgrade legacy or outdated hashes now that we have the plaintext
+    if (passwordNeedsRehash(user.password)) {
+      await db.user.update({
+        where: { id: user.id },
+        data: { password: await hashPassword(password) }
+      });
+    }
+
+    // With two-factor enabled the password only earns a challenge token,
+    // which is exchanged for a session at /api/auth/2fa/verify
+    if (user.twoFactorEnabledAt) {
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challengeToken: createMfaChallengeToken(user.id),
+        expiresIn: MFA_CHALLENGE_TTL_SECONDS
+      });
+    }
+
+    // Start a session and issue its tokens
+    const tokens = await createSession(user, request);
+
+    return sessionResponse(request, tokens, { user: toPublicUser(user) });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccountOwner } from '@/lib/auth';
+import { revokeAllSessions } from '@/lib/sessions';
+import { clearSessionCookies } from '@/lib/auth-cookies';
+
+// POST revoke every session of the current user, including this one
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const revokedCount = await revokeAllSessions(authResult.id, 'logout_all');
+
+    const response = NextResponse.json({
+      message: 'Logged out from all devices',
+      revokedCount
+    });
+    clearSessionCookies(response);
+
+    return response;
+  } catch (error) {
+    console.error('Logout all error:', error);
+    return NextResponse.json(
+      { error: 'Logout failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { revokeSession } from '@/lib/sessions';
+import { clearSessionCookies } from '@/lib/auth-cookies';
+
+// POST revoke the current session
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await requireAuth(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    await revokeSession(authResult.sessionId, 'logout');
+
+    if (authResult.impersonator) {
+      await recordAudit(request, authResult.impersonator, {
+        action: 'user.impersonate_end',
+        entityType: 'User',
+        entityId: authResult.id,
+        metadata: { sessionId: authResult.sessionId }
+      });
+    }
+
+    const response = NextResponse.json({ message: 'Logged out successfully' });
+    clearSessionCookies(response);
+
+    return response;
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json(
+      { error: 'Logout failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requireAccountOwner, requireAuth } from '@/lib/auth';
+import {
+  addressUpdateSchema,
+  findUserAddress,
+  isValidPostcode,
+  promoteNextDefaultAddress,
+  setDefaultAddress
+} from '@/lib/addresses';
+
+// GET a single saved address
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authResult = await requireAuth(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const address = await findUserAddress(authResult.id, params.id);
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(address);
+  } catch (error) {
+    console.error('Error fetching address:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch address' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH update a saved address or make it the default
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const { isDefault, ...validatedData } = addressUpdateSchema.parse(body);
+
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const existingAddress = await findUserAddress(authResult.id, params.id);
+
+    if (!existingAddress) {
+      return NextResponse.json(
+        { error: 'Address not found' },
+        { status: 404 }
+      );
+    }
+
+    const postcode = validatedData.postcode ?? existingAddress.postcode;
+    const country = validatedData.country ?? existingAddress.country;
+
+    if (!isValidPostcode(postcode, country)) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: [{ path: ['postcode'], message: 'Invalid postcode for country' }]
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isDefault === false && existingAddress.isDefault) {
+      return NextResponse.json(
+        { error: 'Choose another default address instead of unsetting this one' },
+        { status: 400 }
+      );
+    }
+
+    let address = await db.address.update({
+      where: { id: params.id },
+      data: validatedData
+    });
+
+    if (isDefault && !address.isDefault) {
+      await setDefaultAddress(authResult.id, address.id);
+      address = { ...address, isDefault: true };
+    }
+
+    return NextResponse.json(address);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating address:', error);
+    return NextResponse.json(
+      { error: 'Failed to update address' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE remove a saved address; orders keep their own copy
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const address = await findUserAddress(authResult.id, params.id);
+
+    if (!address) {
+      return NextResponse.json(
+        { error: 'Address not found' },
+        { status: 404 }
+      );
+    }
+
+    await db.address.delete({
+      where: { id: params.id }
+    });
+
+    if (address.isDefault) {
+      await promoteNextDefaultAddress(authResult.id);
+    }
+
+    return NextResponse.json({ message: 'Address deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting address:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete address' },
+      { status: 500 }
+    );
+  }
+}
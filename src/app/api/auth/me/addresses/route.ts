@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requireAccountOwner, requireAuth } from '@/lib/auth';
+import { addressSchema, setDefaultAddress } from '@/lib/addresses';
+
+const MAX_ADDRESSES = 20;
+
+// GET the current user's saved addresses, default first
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await requireAuth(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const addresses = await db.address.findMany({
+      where: { userId: authResult.id },
+      orderBy: [
+        { isDefault: 'desc' },
+        { createdAt: 'asc' }
+      ]
+    });
+
+    return NextResponse.json({ addresses });
+  } catch (error) {
+    console.error('Error fetching addresses:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch addresses' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST save a new address
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { isDefault, ...validatedData } = addressSchema.parse(body);
+
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const existingCount = await db.address.count({
+      where: { userId: authResult.id }
+    });
+
+    if (existingCount >= MAX_ADDRESSES) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_ADDRESSES} addresses` },
+        { status: 400 }
+      );
+    }
+
+    const address = await db.address.create({
+      data: {
+        ...validatedData,
+        userId: authResult.id
+      }
+    });
+
+    // The first address saved becomes the default
+    if (isDefault || existingCount === 0) {
+      await setDefaultAddress(authResult.id, address.id);
+      address.isDefault = true;
+    }
+
+    return NextResponse.json(address, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating address:', error);
+    return NextResponse.json(
+      { error: 'Failed to create address' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { readEmailChangeToken } from '@/lib/email-verification';
+import { sendMail } from '@/lib/mailer';
+
+const confirmSchema = z.object({
+  token: z.string().min(1),
+});
+
+// POST apply an email change from the link sent to the new address
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token } = confirmSchema.parse(body);
+
+    const payload = readEmailChangeToken(token);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired confirmation token' },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: payload.sub }
+    });
+
+    if (!user || user.email !== payload.email) {
+      return NextResponse.json(
+        { error: 'Invalid or expired confirmation token' },
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await db.user.findUnique({
+      where: { email: payload.newEmail }
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'User with this email already exists' },
+        { status: 400 }
+      );
+    }
+
+    // Opening the link proves the new address, so it counts as verified
+    await db.user.update({
+      where: { id: user.id },
+      data: {
+        email: payload.newEmail,
+        emailVerifiedAt: new Date()
+      }
+    });
+
+    await sendMail({
+      to: payload.email,
+      subject: 'Your Snazo email address was changed',
+      text: [
+        `Hi${user.name ? ` ${user.name}` : ''},`,
+        '',
+        `The email address on your Snazo account was changed to ${payload.newEmail}.`,
+        'If you did not make this change, please contact support immediately.'
+      ].join('\n')
+    });
+
+    return NextResponse.json({ message: 'Email address updated successfully' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Email change confirmation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to confirm email change' },
+      { status: 500 }
+    );
+  }
+}
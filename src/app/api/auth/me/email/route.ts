@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { normalizeEmail, requireAccountOwner, verifyPassword } from '@/lib/auth';
+import { sendEmailChangeConfirmation } from '@/lib/email-verification';
+
+const emailChangeSchema = z.object({
+  newEmail: z.string().email(),
+  password: z.string().min(1),
+});
+
+// POST request an email change; it takes effect once the new address confirms
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const parsed = emailChangeSchema.parse(body);
+    const newEmail = normalizeEmail(parsed.newEmail);
+    const { password } = parsed;
+
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: authResult.id }
+    });
+
+    if (!user || !user.password || !(await verifyPassword(password, user.password))) {
+      return NextResponse.json(
+        { error: 'Invalid password' },
+        { status: 401 }
+      );
+    }
+
+    if (newEmail === user.email) {
+      return NextResponse.json(
+        { error: 'New email must be different from the current one' },
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await db.user.findUnique({
+      where: { email: newEmail }
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'User with this email already exists' },
+        { status: 400 }
+      );
+    }
+
+    await sendEmailChangeConfirmation(user, newEmail);
+
+    return NextResponse.json({
+      message: 'A confirmation link has been sent to the new email address'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Email change request error:', error);
+    return NextResponse.json(
+      { error: 'Failed to request email change' },
+      { status: 500 }
+    );
+  }
+}
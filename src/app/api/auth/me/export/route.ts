@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccountOwner } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  buildUserDataExport,
+  userDataExportFilename,
+  userDataExportResponseBody
+} from '@/lib/data-export';
+
+// GET download all data held about the current user (?format=json|zip)
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') === 'zip' ? 'zip' : 'json';
+
+    const data = await buildUserDataExport(authResult.id);
+
+    if (!data) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, authResult, {
+      action: 'user.export',
+      entityType: 'User',
+      entityId: authResult.id,
+      metadata: { format, requestedBy: 'self' }
+    });
+
+    const { body, contentType } = userDataExportResponseBody(data, format);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${userDataExportFilename(authResult.id, format)}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Data export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requireAccountOwner, hashPassword, verifyPassword } from '@/lib/auth';
+import { revokeAllSessions } from '@/lib/sessions';
+
+const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6),
+});
+
+// POST change the current user's password
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { currentPassword, newPassword } = passwordChangeSchema.parse(body);
+
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: authResult.id }
+    });
+
+    if (!user || !user.password || !(await verifyPassword(currentPassword, user.password))) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 401 }
+      );
+    }
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { password: await hashPassword(newPassword) }
+    });
+
+    // Keep this device signed in, sign out all others
+    await revokeAllSessions(user.id, 'password_changed', authResult.sessionId);
+
+    return NextResponse.json({ message: 'Password changed successfully' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Change password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to change password' },
+      { status: 500 }
+    );
+  }
+}
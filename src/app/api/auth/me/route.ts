@@ -1,5 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAuth } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requireAccountOwner, verifyAuth, verifyPassword } from '@/lib/auth';
+import { anonymizeUser } from '@/lib/account';
+import { clearSessionCookies } from '@/lib/auth-cookies';
+
+const profileUpdateSchema = z.object({
+  name: z.string().min(1).optional(),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  avatar: z.string().optional(),
+});
+
+const accountDeleteSchema = z.object({
+  password: z.string().optional(),
+});
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,4 +35,103 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// PATCH update the current user's own profile
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = profileUpdateSchema.parse(body);
+
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.update({
+      where: { id: authResult.id },
+      data: validatedData,
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        phone: true,
+        address: true,
+        avatar: true,
+        role: true,
+        emailVerifiedAt: true,
+        createdAt: true,
+        updatedAt: true
+      }
+    });
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update profile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE the current user's account: personal data is anonymized, orders are kept
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { password } = accountDeleteSchema.parse(body);
+
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: authResult.id }
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // Accounts with a password must confirm it
+    if (user.password && (!password || !(await verifyPassword(password, user.password)))) {
+      return NextResponse.json(
+        { error: 'Invalid password' },
+        { status: 401 }
+      );
+    }
+
+    await anonymizeUser(user.id);
+
+    const response = NextResponse.json({ message: 'Account deleted successfully' });
+    clearSessionCookies(response);
+
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Delete account error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete account' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { appUrl } from '@/lib/mailer';
+import { createOidcLoginCode, getNextAuthSecret } from '@/lib/oidc';
+
+const NEXT_AUTH_SESSION_COOKIES = [
+  'next-auth.session-token',
+  '__Secure-next-auth.session-token'
+];
+
+function loginRedirectUrl(): URL {
+  return new URL(process.env.OIDC_LOGIN_REDIRECT_URL || appUrl('/'));
+}
+
+// GET the callbackUrl of an OIDC sign-in. Swaps the next-auth handshake
+// session for a one-time code and sends the browser back to the client,
+// which exchanges the code at /api/auth/oidc/exchange.
+export async function GET(request: NextRequest) {
+  const redirectUrl = loginRedirectUrl();
+
+  try {
+    const handshake = await getToken({ req: request, secret: getNextAuthSecret() });
+    const userId = typeof handshake?.appUserId === 'string' ? handshake.appUserId : null;
+
+    if (!userId) {
+      redirectUrl.searchParams.set('error', 'oidc_login_failed');
+    } else {
+      redirectUrl.searchParams.set('code', await createOidcLoginCode(userId));
+    }
+  } catch (error) {
+    console.error('OIDC completion error:', error);
+    redirectUrl.searchParams.set('error', 'oidc_login_failed');
+  }
+
+  const response = NextResponse.redirect(redirectUrl, 302);
+
+  // The handshake session has served its purpose
+  for (const name of NEXT_AUTH_SESSION_COOKIES) {
+    response.cookies.delete(name);
+  }
+
+  return response;
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { toPublicUser } from '@/lib/auth';
+import { consumeOidcLoginCode } from '@/lib/oidc';
+import { createMfaChallengeToken, MFA_CHALLENGE_TTL_SECONDS } from '@/lib/two-factor';
+import { createSession } from '@/lib/sessions';
+import { sessionResponse } from '@/lib/auth-cookies';
+
+const exchangeSchema = z.object({
+  code: z.string().min(1),
+});
+
+// POST exchange the one-time code from an OIDC sign-in for the same tokens
+// /api/auth/login returns
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { code } = exchangeSchema.parse(body);
+
+    const userId = await consumeOidcLoginCode(code);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid or expired login code' },
+        { status: 401 }
+      );
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: userId }
+    });
+
+    if (!user || user.deletedAt) {
+      return NextResponse.json(
+        { error: 'Invalid or expired login code' },
+        { status: 401 }
+      );
+    }
+
+    // The provider counts as the first factor only
+    if (user.twoFactorEnabledAt) {
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challengeToken: createMfaChallengeToken(user.id),
+        expiresIn: MFA_CHALLENGE_TTL_SECONDS
+      });
+    }
+
+    const tokens = await createSession(user, request);
+
+    return sessionResponse(request, tokens, { user: toPublicUser(user) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('OIDC exchange error:', error);
+    return NextResponse.json(
+      { error: 'Login failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { rotateRefreshToken } from '@/lib/sessions';
+import {
+  clearSessionCookies,
+  csrfFailedResponse,
+  getRefreshTokenCookie,
+  hasValidCsrfToken,
+  sessionResponse
+} from '@/lib/auth-cookies';
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Cookie clients may send no body at all
+    const body = await request.json().catch(() => ({}));
+    const validatedData = refreshSchema.parse(body);
+
+    // Without a token in the body, fall back to the refresh cookie
+    const fromCookie = !validatedData.refreshToken;
+    const refreshToken = validatedData.refreshToken ?? getRefreshTokenCookie(request);
+
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: [{ path: ['refreshToken'], message: 'Required' }] },
+        { status: 400 }
+      );
+    }
+
+    if (fromCookie && !hasValidCsrfToken(request)) {
+      return csrfFailedResponse();
+    }
+
+    const result = await rotateRefreshToken(refreshToken, request);
+
+    if (result.status === 'reused') {
+      const response = NextResponse.json(
+        {
+          error: 'Refresh token has already been used; the session was revoked',
+          code: 'REFRESH_TOKEN_REUSED'
+        },
+        { status: 401 }
+      );
+
+      if (fromCookie) {
+        clearSessionCookies(response);
+      }
+
+      return response;
+    }
+
+    if (result.status === 'invalid') {
+      const response = NextResponse.json(
+        { error: 'Invalid or expired refresh token' },
+        { status: 401 }
+      );
+
+      if (fromCookie) {
+        clearSessionCookies(response);
+      }
+
+      return response;
+    }
+
+    return sessionResponse(request, result.tokens, {}, fromCookie ? { cookie: true } : {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Token refresh error:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh token' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-import { generateToken, hashPassword } from '@/lib/auth';
+import { hashPassword, normalizeEmail, toPublicUser } from '@/lib/auth';
+import { createSession } from '@/lib/sessions';
+import { sessionResponse } from '@/lib/auth-cookies';
+import { sendVerificationEmail } from '@/lib/email-verification';
 
 const registerSchema = z.object({
   email: z.string().email(),
@@ -14,7 +17,8 @@ const registerSchema = z.object({
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { email, password, name, phone, address } = registerSchema.parse(body);
+    const { password, name, phone, address, ...parsed } = registerSchema.parse(body);
+    const email = normalizeEmail(parsed.email);
 
     // Check if user already exists
     const existingUser = await db.user.findUnique({
@@ -29,7 +33,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Hash password
-    const hashedPassword = hashPassword(password);
+    const hashedPassword = await hashPassword(password);
 
     // Create user
     const user = await db.user.create({
@@ -43,20 +47,14 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    // Generate token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      role: user.role
-    });
+    // The account can be used right away, but ordering and reviewing
+    // require a verified address
+    await sendVerificationEmail(user);
 
-    // Return user data without password
-    const { password: _, ...userWithoutPassword } = user;
+    // Start a session and issue its tokens
+    const tokens = await createSession(user, request);
 
-    return NextResponse.json({
-      user: userWithoutPassword,
-      token
-    }, { status: 201 });
+    return sessionResponse(request, tokens, { user: toPublicUser(user) }, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
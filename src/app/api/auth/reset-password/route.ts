@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { hashPassword } from '@/lib/auth';
+import { hashToken, revokeAllSessions } from '@/lib/sessions';
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token, password } = resetPasswordSchema.parse(body);
+
+    const resetToken = await db.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) }
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+      return NextResponse.json(
+        { error: 'Invalid or expired reset token' },
+        { status: 400 }
+      );
+    }
+
+    // Claim the token first so two concurrent requests can't both use it
+    const claimed = await db.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      return NextResponse.json(
+        { error: 'Invalid or expired reset token' },
+        { status: 400 }
+      );
+    }
+
+    const hashedPassword = await hashPassword(password);
+
+    await db.$transaction([
+      db.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword }
+      }),
+      db.passwordResetToken.updateMany({
+        where: { userId: resetToken.userId, usedAt: null },
+        data: { usedAt: new Date() }
+      })
+    ]);
+
+    // Sign out everywhere, including whoever may have known the old password
+    await revokeAllSessions(resetToken.userId, 'password_reset');
+
+    return NextResponse.json({
+      message: 'Password has been reset. Please log in with your new password'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Reset password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    );
+  }
+}
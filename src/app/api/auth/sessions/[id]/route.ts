@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireAccountOwner } from '@/lib/auth';
+import { revokeSession } from '@/lib/sessions';
+
+// DELETE revoke one of the current user's sessions
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authResult = await requireAccountOwner(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const session = await db.session.findFirst({
+      where: {
+        id: params.id,
+        userId: authResult.id,
+        revokedAt: null
+      }
+    });
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    await revokeSession(session.id, 'revoked_by_user');
+
+    return NextResponse.json(
+      { message: 'Session revoked successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { listActiveSessions } from '@/lib/sessions';
+
+// GET active sessions (devices) of the current user
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await requireAuth(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const sessions = await listActiveSessions(authResult.id);
+
+    return NextResponse.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        current: session.id === authResult.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    );
+  }
+}
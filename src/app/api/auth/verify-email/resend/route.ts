@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { rateLimit, tooManyRequests } from '@/lib/rate-limit';
+
+const RESEND_WINDOW_MS = 60 * 60 * 1000;
+const RESEND_LIMIT_PER_USER = 3;
+
+// POST send a fresh verification link to the current user
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authResult = await requireAuth(request);
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    if (authResult.emailVerifiedAt) {
+      return NextResponse.json(
+        { error: 'Email address is already verified' },
+        { status: 400 }
+      );
+    }
+
+    // Each call sends mail, so it is limited like password reset requests
+    const userLimit = await rateLimit(`verify-email:user:${authResult.id}`, {
+      limit: RESEND_LIMIT_PER_USER,
+      windowMs: RESEND_WINDOW_MS
+    });
+
+    if (!userLimit.allowed) {
+      return tooManyRequests(userLimit.retryAfterSeconds);
+    }
+
+    await sendVerificationEmail(authResult);
+
+    return NextResponse.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send verification email' },
+      { status: 500 }
+    );
+  }
+}
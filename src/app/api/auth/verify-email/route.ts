@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { readEmailVerificationToken } from '@/lib/email-verification';
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token } = verifyEmailSchema.parse(body);
+
+    const payload = readEmailVerificationToken(token);
+
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Invalid or expired verification token' },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: payload.sub }
+    });
+
+    // The address must still be the one the link was sent to
+    if (!user || user.email !== payload.email) {
+      return NextResponse.json(
+        { error: 'Invalid or expired verification token' },
+        { status: 400 }
+      );
+    }
+
+    if (!user.emailVerifiedAt) {
+      await db.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() }
+      });
+    }
+
+    return NextResponse.json({ message: 'Email verified successfully' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Email verification error:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify email' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getCategoryPath, loadCategories, validateCategoryParent } from '@/lib/categories';
+import { indexCategoryProducts } from '@/lib/search';
+import { imageManifestSchema, toImageManifestData, withImageManifest } from '@/lib/image-processing';
 
 // Schema validation for updates
 const categoryUpdateSchema = z.object({
@@ -8,6 +13,9 @@ const categoryUpdateSchema = z.object({
   slug: z.string().min(1).optional(),
   description: z.string().optional(),
   image: z.string().url().optional(),
+  imageManifest: imageManifestSchema.nullable().optional(),
+  parentId: z.string().min(1).nullable().optional(),
+  position: z.number().int().min(0).optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -20,6 +28,12 @@ export async function GET(
     const category = await db.category.findUnique({
       where: { id: params.id },
       include: {
+        children: {
+          orderBy: [
+            { position: 'asc' },
+            { name: 'asc' }
+          ]
+        },
         products: {
           where: { isActive: true },
           include: {
@@ -42,7 +56,7 @@ export async function GET(
 
     // Calculate ratings for products
     const productsWithRating = category.products.map(product => ({
-      ...product,
+      ...withImageManifest(product),
       averageRating: product.reviews.length > 0 
         ? product.reviews.reduce((sum, review) => sum + review.rating, 0) / product.reviews.length 
         : 0,
@@ -50,7 +64,9 @@ export async function GET(
     }));
 
     return NextResponse.json({
-      ...category,
+      ...withImageManifest(category),
+      children: category.children.map(withImageManifest),
+      breadcrumb: getCategoryPath(await loadCategories(), category.id),
       products: productsWithRating
     });
   } catch (error) {
@@ -68,6 +84,12 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'categories:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
     const body = await request.json();
     const validatedData = categoryUpdateSchema.parse(body);
 
@@ -102,12 +124,45 @@ export async function PUT(
       }
     }
 
+    if (validatedData.parentId) {
+      const parentError = validateCategoryParent(
+        await loadCategories(),
+        params.id,
+        validatedData.parentId
+      );
+
+      if (parentError) {
+        return NextResponse.json(
+          { error: parentError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { imageManifest, ...categoryData } = validatedData;
+
     const updatedCategory = await db.category.update({
       where: { id: params.id },
-      data: validatedData
+      data: {
+        ...categoryData,
+        ...toImageManifestData(imageManifest)
+      }
     });
 
-    return NextResponse.json(updatedCategory);
+    // Products are searchable by category name
+    if (updatedCategory.name !== existingCategory.name) {
+      await indexCategoryProducts(params.id);
+    }
+
+    await recordAudit(request, authResult, {
+      action: 'category.update',
+      entityType: 'Category',
+      entityId: params.id,
+      before: existingCategory,
+      after: updatedCategory
+    });
+
+    return NextResponse.json(withImageManifest(updatedCategory));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -124,17 +179,30 @@ export async function PUT(
   }
 }
 
-// DELETE category
+// DELETE category. Subcategories block the delete unless `?reparent=true`,
+// which moves them up to the deleted category's parent.
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check if category exists and has products
+    // Check admin permission
+    const authResult = await requirePermission(request, 'categories:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const reparent = searchParams.get('reparent') === 'true';
+
+    // Check if category exists and has products or subcategories
     const existingCategory = await db.category.findUnique({
       where: { id: params.id },
       include: {
-        products: true
+        products: true,
+        children: {
+          select: { id: true }
+        }
       }
     });
 
@@ -153,9 +221,37 @@ export async function DELETE(
       );
     }
 
-    // Delete the category
-    await db.category.delete({
-      where: { id: params.id }
+    const childIds = existingCategory.children.map(child => child.id);
+
+    if (childIds.length > 0 && !reparent) {
+      return NextResponse.json(
+        {
+          error: 'Cannot delete category with subcategories; pass reparent=true to move them to its parent',
+          code: 'CATEGORY_HAS_CHILDREN'
+        },
+        { status: 400 }
+      );
+    }
+
+    // Move subcategories up a level, then delete the category
+    await db.$transaction([
+      db.category.updateMany({
+        where: { parentId: params.id },
+        data: { parentId: existingCategory.parentId }
+      }),
+      db.category.delete({
+        where: { id: params.id }
+      })
+    ]);
+
+    await recordAudit(request, authResult, {
+      action: 'category.delete',
+      entityType: 'Category',
+      entityId: params.id,
+      before: existingCategory,
+      metadata: childIds.length > 0
+        ? { reparentedChildIds: childIds, newParentId: existingCategory.parentId }
+        : undefined
     });
 
     return NextResponse.json(
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { loadCategories, validateCategoryParent } from '@/lib/categories';
+import { imageManifestSchema, toImageManifestData, withImageManifest } from '@/lib/image-processing';
 
 // Schema validation
 const categorySchema = z.object({
@@ -8,6 +12,10 @@ const categorySchema = z.object({
   slug: z.string().min(1),
   description: z.string().optional(),
   image: z.string().url().optional(),
+  // The manifest returned by /api/admin/upload for `image`
+  imageManifest: imageManifestSchema.nullable().optional(),
+  parentId: z.string().min(1).nullable().optional(),
+  position: z.number().int().min(0).default(0),
   isActive: z.boolean().default(true),
 });
 
@@ -16,6 +24,7 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const isActive = searchParams.get('isActive');
+    const parentId = searchParams.get('parentId');
 
     const where: any = {};
     
@@ -23,6 +32,11 @@ export async function GET(request: NextRequest) {
       where.isActive = isActive === 'true';
     }
 
+    // `parentId=root` lists top-level categories
+    if (parentId) {
+      where.parentId = parentId === 'root' ? null : parentId;
+    }
+
     const categories = await db.category.findMany({
       where,
       include: {
@@ -37,7 +51,7 @@ export async function GET(request: NextRequest) {
 
     // Add product count
     const categoriesWithCount = categories.map(category => ({
-      ...category,
+      ...withImageManifest(category),
       productCount: category.products.length
     }));
 
@@ -54,6 +68,12 @@ export async function GET(request: NextRequest) {
 // POST create new category
 export async function POST(request: NextRequest) {
   try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'categories:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
     const body = await request.json();
     const validatedData = categorySchema.parse(body);
 
@@ -69,11 +89,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (validatedData.parentId) {
+      const parentError = validateCategoryParent(
+        await loadCategories(),
+        null,
+        validatedData.parentId
+      );
+
+      if (parentError) {
+        return NextResponse.json(
+          { error: parentError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { imageManifest, ...categoryData } = validatedData;
+
     const category = await db.category.create({
-      data: validatedData
+      data: {
+        ...categoryData,
+        ...toImageManifestData(imageManifest)
+      }
+    });
+
+    await recordAudit(request, authResult, {
+      action: 'category.create',
+      entityType: 'Category',
+      entityId: category.id,
+      after: category
     });
 
-    return NextResponse.json(category, { status: 201 });
+    return NextResponse.json(withImageManifest(category), { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
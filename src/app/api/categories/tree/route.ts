@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { buildCategoryTree, CategoryTreeNode } from '@/lib/categories';
+
+type CategoryWithCount = Awaited<ReturnType<typeof findCategories>>[number];
+
+function findCategories(where: any) {
+  return db.category.findMany({
+    where,
+    include: {
+      _count: {
+        select: { products: true }
+      }
+    }
+  });
+}
+
+function serializeNode(node: CategoryTreeNode<CategoryWithCount>): any {
+  const { _count, ...category } = node.category;
+  const children = node.children.map(serializeNode);
+
+  return {
+    ...category,
+    productCount: _count.products,
+    // Products in this category and all of its subcategories
+    totalProductCount: _count.products + children.reduce(
+      (sum: number, child: any) => sum + child.totalProductCount,
+      0
+    ),
+    children
+  };
+}
+
+// GET categories nested under their parents
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const isActive = searchParams.get('isActive');
+
+    const where: any = {};
+
+    if (isActive !== null) {
+      where.isActive = isActive === 'true';
+    }
+
+    const categories = await findCategories(where);
+
+    return NextResponse.json(buildCategoryTree(categories).map(serializeNode));
+  } catch (error) {
+    console.error('Error fetching category tree:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch category tree' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { isMockOidcEnabled, mockOidcIssuer, mockOidcNotFound } from '@/lib/mock-oidc';
+
+// GET discovery document of the mock OIDC provider (development only)
+export async function GET() {
+  if (!isMockOidcEnabled()) {
+    return mockOidcNotFound();
+  }
+
+  const issuer = mockOidcIssuer();
+
+  return NextResponse.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['HS256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    claims_supported: ['sub', 'email', 'email_verified', 'name']
+  });
+}
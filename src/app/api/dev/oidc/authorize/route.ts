@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createMockAuthorizationCode,
+  isAllowedRedirectUri,
+  isMockOidcEnabled,
+  MOCK_OIDC_CLIENT_ID,
+  mockOidcNotFound
+} from '@/lib/mock-oidc';
+
+const DEFAULT_EMAIL = 'oidc.user@example.com';
+const DEFAULT_NAME = 'OIDC Test User';
+
+// Parameters carried from the authorization request through the login form
+const FORWARDED_PARAMS = [
+  'client_id',
+  'redirect_uri',
+  'response_type',
+  'state',
+  'nonce',
+  'code_challenge',
+  'code_challenge_method'
+];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function validateRequest(params: URLSearchParams): string | null {
+  if (params.get('client_id') !== MOCK_OIDC_CLIENT_ID) {
+    return 'Unknown client_id';
+  }
+
+  if (params.get('response_type') !== 'code') {
+    return 'Only response_type=code is supported';
+  }
+
+  const redirectUri = params.get('redirect_uri');
+  if (!redirectUri || !isAllowedRedirectUri(redirectUri)) {
+    return 'Invalid redirect_uri';
+  }
+
+  const challengeMethod = params.get('code_challenge_method');
+  if (params.get('code_challenge') && challengeMethod !== 'S256') {
+    return 'Only the S256 code challenge method is supported';
+  }
+
+  return null;
+}
+
+function approve(
+  params: URLSearchParams,
+  identity: { email: string; name: string; email_verified: boolean }
+): NextResponse {
+  const redirectUri = params.get('redirect_uri')!;
+  const code = createMockAuthorizationCode(identity, {
+    redirectUri,
+    nonce: params.get('nonce') ?? undefined,
+    codeChallenge: params.get('code_challenge') ?? undefined
+  });
+
+  const target = new URL(redirectUri);
+  target.searchParams.set('code', code);
+
+  const state = params.get('state');
+  if (state) {
+    target.searchParams.set('state', state);
+  }
+
+  return NextResponse.redirect(target, 302);
+}
+
+function loginForm(params: URLSearchParams): NextResponse {
+  const hiddenFields = FORWARDED_PARAMS
+    .filter(name => params.has(name))
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name)!)}">`)
+    .join('\n      ');
+
+  const html = `<!doctype html>
+<html>
+  <head><title>Mock OIDC sign-in</title></head>
+  <body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto;">
+    <h1>Mock OIDC sign-in</h1>
+    <p>Development only. Sign in as any identity.</p>
+    <form method="post">
+      ${hiddenFields}
+      <p><label>Email<br><input name="email" type="email" value="${DEFAULT_EMAIL}" required></label></p>
+      <p><label>Name<br><input name="name" value="${DEFAULT_NAME}"></label></p>
+      <p><label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label></p>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`;
+
+  return new NextResponse(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  });
+}
+
+// GET authorization endpoint. With ?login_hint=<email> the identity is
+// approved straight away, which suits scripted tests; otherwise a form asks
+// for one.
+export async function GET(request: NextRequest) {
+  if (!isMockOidcEnabled()) {
+    return mockOidcNotFound();
+  }
+
+  const params = new URL(request.url).searchParams;
+  const error = validateRequest(params);
+
+  if (error) {
+    return NextResponse.json({ error: 'invalid_request', error_description: error }, { status: 400 });
+  }
+
+  const loginHint = params.get('login_hint');
+
+  if (loginHint) {
+    return approve(params, {
+      email: loginHint,
+      name: loginHint.split('@')[0],
+      email_verified: true
+    });
+  }
+
+  return loginForm(params);
+}
+
+// POST submission of the login form
+export async function POST(request: NextRequest) {
+  if (!isMockOidcEnabled()) {
+    return mockOidcNotFound();
+  }
+
+  const form = await request.formData();
+  const params = new URLSearchParams();
+
+  for (const name of FORWARDED_PARAMS) {
+    const value = form.get(name);
+    if (typeof value === 'string') {
+      params.set(name, value);
+    }
+  }
+
+  const error = validateRequest(params);
+
+  if (error) {
+    return NextResponse.json({ error: 'invalid_request', error_description: error }, { status: 400 });
+  }
+
+  const email = String(form.get('email') || DEFAULT_EMAIL);
+
+  return approve(params, {
+    email,
+    name: String(form.get('name') || email.split('@')[0]),
+    email_verified: form.get('email_verified') === 'true'
+  });
+}
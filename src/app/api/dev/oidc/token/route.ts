@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isMockClientAuthenticated,
+  isMockOidcEnabled,
+  issueMockTokens,
+  mockOidcNotFound,
+  readMockAuthorizationCode,
+  verifyCodeChallenge
+} from '@/lib/mock-oidc';
+
+function tokenError(error: string, description: string, status = 400) {
+  return NextResponse.json(
+    { error, error_description: description },
+    { status, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+// POST token endpoint of the mock OIDC provider (authorization_code grant)
+export async function POST(request: NextRequest) {
+  if (!isMockOidcEnabled()) {
+    return mockOidcNotFound();
+  }
+
+  const form = new URLSearchParams(await request.text());
+
+  if (!isMockClientAuthenticated(request.headers.get('authorization'), form)) {
+    return tokenError('invalid_client', 'Client authentication failed', 401);
+  }
+
+  if (form.get('grant_type') !== 'authorization_code') {
+    return tokenError('unsupported_grant_type', 'Only authorization_code is supported');
+  }
+
+  const code = readMockAuthorizationCode(form.get('code') || '');
+
+  if (!code || code.redirect_uri !== form.get('redirect_uri')) {
+    return tokenError('invalid_grant', 'Invalid or expired authorization code');
+  }
+
+  if (code.code_challenge) {
+    const verifier = form.get('code_verifier');
+
+    if (!verifier || !verifyCodeChallenge(verifier, code.code_challenge)) {
+      return tokenError('invalid_grant', 'PKCE verification failed');
+    }
+  }
+
+  return NextResponse.json(issueMockTokens(code), {
+    headers: { 'Cache-Control': 'no-store' }
+  });
+}
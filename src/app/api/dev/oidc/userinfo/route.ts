@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isMockOidcEnabled, mockOidcNotFound, readMockAccessToken } from '@/lib/mock-oidc';
+
+// GET userinfo endpoint of the mock OIDC provider
+export async function GET(request: NextRequest) {
+  if (!isMockOidcEnabled()) {
+    return mockOidcNotFound();
+  }
+
+  const authHeader = request.headers.get('authorization');
+  const claims = authHeader?.startsWith('Bearer ')
+    ? readMockAccessToken(authHeader.substring(7))
+    : null;
+
+  if (!claims) {
+    return NextResponse.json(
+      { error: 'invalid_token' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+    );
+  }
+
+  return NextResponse.json(claims);
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // Schema validation for updates
 const offerUpdateSchema = z.object({
@@ -66,6 +68,12 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'offers:manage');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
     const body = await request.json();
     const { productIds, ...offerData } = offerUpdateSchema.parse(body);
 
@@ -149,6 +157,15 @@ export async function PUT(
       }
     });
 
+    await recordAudit(request, authResult, {
+      action: 'offer.update',
+      entityType: 'Offer',
+      entityId: params.id,
+      before: existingOffer,
+      after: updatedOffer,
+      metadata: productIds !== undefined ? { productIds } : undefined
+    });
+
     return NextResponse.json(updatedOffer);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -172,6 +189,12 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'offers:manage');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
     // Check if offer exists and has orders
     const existingOffer = await db.offer.findUnique({
       where: { id: params.id },
@@ -195,6 +218,15 @@ export async function DELETE(
         data: { isActive: false }
       });
 
+      await recordAudit(request, authResult, {
+        action: 'offer.deactivate',
+        entityType: 'Offer',
+        entityId: params.id,
+        before: { isActive: existingOffer.isActive },
+        after: { isActive: false },
+        metadata: { reason: 'has_orders' }
+      });
+
       return NextResponse.json(
         { message: 'Offer deactivated because it has existing orders' },
         { status: 200 }
@@ -206,6 +238,13 @@ export async function DELETE(
       where: { id: params.id }
     });
 
+    await recordAudit(request, authResult, {
+      action: 'offer.delete',
+      entityType: 'Offer',
+      entityId: params.id,
+      before: existingOffer
+    });
+
     return NextResponse.json(
       { message: 'Offer deleted successfully' },
       { status: 200 }
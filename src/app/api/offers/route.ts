@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { pageArgs, paginateResults, parsePagination, sortOrderBy, withCursor } from '@/lib/pagination';
 
 // Schema validation
 const offerSchema = z.object({
@@ -21,12 +24,13 @@ const offerSchema = z.object({
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
     const isActive = searchParams.get('isActive');
     const code = searchParams.get('code');
 
-    const skip = (page - 1) * limit;
+    const pagination = parsePagination(searchParams);
+    if (pagination instanceof NextResponse) {
+      return pagination;
+    }
 
     const where: any = {};
     
@@ -38,9 +42,9 @@ export async function GET(request: NextRequest) {
       where.code = { contains: code, mode: 'insensitive' };
     }
 
-    const [offers, total] = await Promise.all([
+    const [offersPage, total] = await Promise.all([
       db.offer.findMany({
-        where,
+        where: withCursor(where, pagination),
         include: {
           productOffers: {
             include: {
@@ -59,21 +63,17 @@ export async function GET(request: NextRequest) {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
+        orderBy: sortOrderBy(),
+        ...pageArgs(pagination),
       }),
       db.offer.count({ where })
     ]);
 
+    const { items: offers, pagination: pageInfo } = paginateResults(pagination, offersPage, total);
+
     return NextResponse.json({
       offers,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+      pagination: pageInfo
     });
   } catch (error) {
     console.error('Error fetching offers:', error);
@@ -87,6 +87,12 @@ export async function GET(request: NextRequest) {
 // POST create new offer
 export async function POST(request: NextRequest) {
   try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'offers:manage');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
     const body = await request.json();
     const { productIds, ...offerData } = offerSchema.parse(body);
 
@@ -133,6 +139,14 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    await recordAudit(request, authResult, {
+      action: 'offer.create',
+      entityType: 'Offer',
+      entityId: offer.id,
+      after: offer,
+      metadata: productIds?.length ? { productIds } : undefined
+    });
+
     return NextResponse.json(offer, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-import { requireAuth, requireAdmin } from '@/lib/auth';
+import { requireAuth, requirePermission, userHasPermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { adjustStock } from '@/lib/variants';
 
 const orderUpdateSchema = z.object({
   status: z.enum(['PENDING', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED']).optional(),
@@ -43,6 +45,13 @@ export async function GET(
                 image: true,
                 sku: true
               }
+            },
+            variant: {
+              select: {
+                id: true,
+                name: true,
+                sku: true
+              }
             }
           }
         },
@@ -58,7 +67,7 @@ export async function GET(
     }
 
     // Check if user can access this order
-    if (user.role !== 'ADMIN' && order.userId !== user.id) {
+    if (order.userId !== user.id && !(await userHasPermission(user, 'orders:read'))) {
       return NextResponse.json(
         { error: 'Access denied' },
         { status: 403 }
@@ -81,8 +90,8 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'orders:update');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -110,14 +119,7 @@ export async function PUT(
 
       // Restore stock for each item
       for (const item of orderItems) {
-        await db.product.update({
-          where: { id: item.productId },
-          data: {
-            stock: {
-              increment: item.quantity
-            }
-          }
-        });
+        await adjustStock(item, item.quantity);
       }
     }
 
@@ -148,6 +150,17 @@ export async function PUT(
       }
     });
 
+    await recordAudit(request, authResult, {
+      action: validatedData.status === 'CANCELLED' && existingOrder.status !== 'CANCELLED'
+        ? 'order.cancel'
+        : 'order.update',
+      entityType: 'Order',
+      entityId: params.id,
+      before: existingOrder,
+      after: updatedOrder,
+      metadata: { orderNumber: updatedOrder.orderNumber }
+    });
+
     return NextResponse.json(updatedOrder);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -171,8 +184,8 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check admin authentication
-    const authResult = await requireAdmin(request);
+    // Check admin permission
+    const authResult = await requirePermission(request, 'orders:delete');
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -205,6 +218,21 @@ export async function DELETE(
       where: { id: params.id }
     });
 
+    await recordAudit(request, authResult, {
+      action: 'order.delete',
+      entityType: 'Order',
+      entityId: params.id,
+      before: existingOrder,
+      metadata: {
+        orderNumber: existingOrder.orderNumber,
+        items: existingOrder.items.map(item => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          price: item.price
+        }))
+      }
+    });
+
     return NextResponse.json(
       { message: 'Order deleted successfully' },
       { status: 200 }
@@ -1,16 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-import { requireAuth, requireAdmin } from '@/lib/auth';
+import { requireAuth, requireVerifiedUser, userHasPermission } from '@/lib/auth';
 import { validateAndApplyOffer, incrementOfferUsage } from '@/lib/offers';
+import { getClientIp } from '@/lib/sessions';
+import { rateLimit, tooManyRequests } from '@/lib/rate-limit';
+import { findUserAddress, getDefaultAddress, orderAddressSnapshot } from '@/lib/addresses';
+import { adjustStock } from '@/lib/variants';
+import { liveProductWhere } from '@/lib/product-status';
+import { pageArgs, paginateResults, parsePagination, sortOrderBy, withCursor } from '@/lib/pagination';
+
+const OFFER_CODE_WINDOW_MS = 60 * 60 * 1000;
+const OFFER_CODE_ATTEMPTS = 20;
 
 const orderSchema = z.object({
   items: z.array(z.object({
     productId: z.string(),
+    // Required for products that have variants
+    variantId: z.string().optional(),
     quantity: z.number().int().positive(),
-    price: z.number().positive()
+    // Ignored; lines are priced from the catalog. Still accepted from
+    // clients that send it.
+    price: z.number().positive().optional()
   })),
-  shippingAddress: z.string().min(1),
+  // A saved address; without one the free-text shippingAddress or the
+  // user's default address is used
+  addressId: z.string().optional(),
+  shippingAddress: z.string().min(1).optional(),
   paymentMethod: z.string().min(1),
   notes: z.string().optional(),
   offerCode: z.string().optional(),
@@ -20,12 +36,13 @@ const orderSchema = z.object({
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
     const status = searchParams.get('status');
     const userId = searchParams.get('userId');
 
-    const skip = (page - 1) * limit;
+    const pagination = parsePagination(searchParams);
+    if (pagination instanceof NextResponse) {
+      return pagination;
+    }
 
     // Check authentication
     const authResult = await requireAuth(request);
@@ -37,8 +54,8 @@ export async function GET(request: NextRequest) {
 
     const where: any = {};
     
-    // Non-admin users can only see their own orders
-    if (user.role !== 'ADMIN') {
+    // Users without orders:read can only see their own orders
+    if (!(await userHasPermission(user, 'orders:read'))) {
       where.userId = user.id;
     } else if (userId) {
       // Admin can filter by user
@@ -49,9 +66,9 @@ export async function GET(request: NextRequest) {
       where.status = status;
     }
 
-    const [orders, total] = await Promise.all([
+    const [ordersPage, total] = await Promise.all([
       db.order.findMany({
-        where,
+        where: withCursor(where, pagination),
         include: {
           user: {
             select: {
@@ -68,26 +85,28 @@ export async function GET(request: NextRequest) {
                   name: true,
                   image: true
                 }
+              },
+              variant: {
+                select: {
+                  id: true,
+                  name: true
+                }
               }
             }
           },
           offer: true
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
+        orderBy: sortOrderBy(),
+        ...pageArgs(pagination),
       }),
       db.order.count({ where })
     ]);
 
+    const { items: orders, pagination: pageInfo } = paginateResults(pagination, ordersPage, total);
+
     return NextResponse.json({
       orders,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+      pagination: pageInfo
     });
   } catch (error) {
     console.error('Error fetching orders:', error);
@@ -104,36 +123,96 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = orderSchema.parse(body);
 
-    // Check authentication
-    const authResult = await requireAuth(request);
+    // Check authentication and email verification
+    const authResult = await requireVerifiedUser(request);
     if (authResult instanceof NextResponse) {
       return authResult;
     }
 
     const user = authResult;
 
+    // Resolve the delivery address
+    let shippingDetails: Record<string, string | null>;
+
+    if (validatedData.addressId) {
+      const address = await findUserAddress(user.id, validatedData.addressId);
+
+      if (!address) {
+        return NextResponse.json(
+          { error: 'Address not found' },
+          { status: 400 }
+        );
+      }
+
+      shippingDetails = orderAddressSnapshot(address);
+    } else if (validatedData.shippingAddress) {
+      shippingDetails = { shippingAddress: validatedData.shippingAddress };
+    } else {
+      const address = await getDefaultAddress(user.id);
+
+      if (!address) {
+        return NextResponse.json(
+          { error: 'A shipping address is required' },
+          { status: 400 }
+        );
+      }
+
+      shippingDetails = orderAddressSnapshot(address);
+    }
+
     // Validate products and calculate totals
     const productIds = validatedData.items.map(item => item.productId);
     const products = await db.product.findMany({
       where: {
         id: { in: productIds },
-        isActive: true
+        ...liveProductWhere()
+      },
+      include: {
+        variants: {
+          where: { isActive: true }
+        }
       }
     });
 
-    if (products.length !== productIds.length) {
+    if (products.length !== new Set(productIds).size) {
       return NextResponse.json(
         { error: 'Some products are not available' },
         { status: 400 }
       );
     }
 
-    // Check stock availability
+    // Check stock availability, per variant for products that have them.
+    // Quantities are summed so two lines can't each pass on the same stock.
+    const requested = new Map<string, number>();
+
     for (const item of validatedData.items) {
-      const product = products.find(p => p.id === item.productId);
-      if (product && product.stock < item.quantity) {
+      const product = products.find(p => p.id === item.productId)!;
+
+      if (product.variants.length > 0 && !item.variantId) {
+        return NextResponse.json(
+          { error: `A variant must be chosen for product: ${product.name}`, code: 'VARIANT_REQUIRED' },
+          { status: 400 }
+        );
+      }
+
+      const variant = item.variantId
+        ? product.variants.find(v => v.id === item.variantId)
+        : null;
+
+      if (item.variantId && !variant) {
+        return NextResponse.json(
+          { error: `Variant is not available for product: ${product.name}` },
+          { status: 400 }
+        );
+      }
+
+      const stockKey = variant ? `variant:${variant.id}` : `product:${product.id}`;
+      const quantity = (requested.get(stockKey) ?? 0) + item.quantity;
+      requested.set(stockKey, quantity);
+
+      if ((variant ? variant.stock : product.stock) < quantity) {
         return NextResponse.json(
-          { error: `Insufficient stock for product: ${product.name}` },
+          { error: `Insufficient stock for product: ${variant ? `${product.name} (${variant.name})` : product.name}` },
           { status: 400 }
         );
       }
@@ -144,14 +223,18 @@ export async function POST(request: NextRequest) {
     const orderItems: any[] = [];
 
     for (const item of validatedData.items) {
-      const product = products.find(p => p.id === item.productId);
-      const itemTotal = item.price * item.quantity;
+      const product = products.find(p => p.id === item.productId)!;
+      const variant = product.variants.find(v => v.id === item.variantId);
+      const price = variant?.price ?? product.price;
+      const itemTotal = price * item.quantity;
       subtotal += itemTotal;
 
       orderItems.push({
         productId: item.productId,
+        variantId: variant?.id ?? null,
+        variantName: variant?.name ?? null,
         quantity: item.quantity,
-        price: item.price,
+        price,
         total: itemTotal
       });
     }
@@ -161,6 +244,27 @@ export async function POST(request: NextRequest) {
     let offerId = null;
     
     if (validatedData.offerCode) {
+      // Keep coupon codes from being enumerated through checkout
+      const [userLimit, ipLimit] = await Promise.all([
+        rateLimit(`offer:user:${user.id}`, {
+          limit: OFFER_CODE_ATTEMPTS,
+          windowMs: OFFER_CODE_WINDOW_MS
+        }),
+        rateLimit(`offer:ip:${getClientIp(request) ?? 'unknown'}`, {
+          limit: OFFER_CODE_ATTEMPTS,
+          windowMs: OFFER_CODE_WINDOW_MS
+        })
+      ]);
+
+      if (!userLimit.allowed || !ipLimit.allowed) {
+        return tooManyRequests(Math.max(
+          userLimit.allowed ? 0 : userLimit.retryAfterSeconds,
+          ipLimit.allowed ? 0 : ipLimit.retryAfterSeconds
+        ), {
+          error: 'Too many offer code attempts, please try again later'
+        });
+      }
+
       const offerResult = await validateAndApplyOffer(
         validatedData.offerCode,
         subtotal,
@@ -190,7 +294,7 @@ export async function POST(request: NextRequest) {
         shipping,
         total,
         notes: validatedData.notes,
-        shippingAddress: validatedData.shippingAddress,
+        ...shippingDetails,
         paymentMethod: validatedData.paymentMethod,
         offerId,
         items: {
@@ -200,7 +304,8 @@ export async function POST(request: NextRequest) {
       include: {
         items: {
           include: {
-            product: true
+            product: true,
+            variant: true
           }
         },
         offer: true,
@@ -214,16 +319,9 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    // Update product stock
-    for (const item of validatedData.items) {
-      await db.product.update({
-        where: { id: item.productId },
-        data: {
-          stock: {
-            decrement: item.quantity
-          }
-        }
-      });
+    // Update product (or variant) stock
+    for (const item of orderItems) {
+      await adjustStock(item, -item.quantity);
     }
 
     // Increment offer usage if offer was used
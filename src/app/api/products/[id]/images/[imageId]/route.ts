@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { compactImagePositions, productImageUpdateSchema, toPublicProductImage } from '@/lib/product-images';
+
+// PATCH update an image's alt text
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; imageId: string } }
+) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const body = await request.json();
+    const validatedData = productImageUpdateSchema.parse(body);
+
+    const existingImage = await db.productImage.findFirst({
+      where: { id: params.imageId, productId: params.id }
+    });
+
+    if (!existingImage) {
+      return NextResponse.json(
+        { error: 'Image not found' },
+        { status: 404 }
+      );
+    }
+
+    const updatedImage = await db.productImage.update({
+      where: { id: params.imageId },
+      data: { alt: validatedData.alt || null }
+    });
+
+    await recordAudit(request, authResult, {
+      action: 'product_image.update',
+      entityType: 'ProductImage',
+      entityId: params.imageId,
+      before: existingImage,
+      after: updatedImage,
+      metadata: { productId: params.id }
+    });
+
+    return NextResponse.json(toPublicProductImage(updatedImage));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating product image:', error);
+    return NextResponse.json(
+      { error: 'Failed to update product image' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE detach an image from a product. The uploaded file is kept, as it
+// may be used elsewhere.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; imageId: string } }
+) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const existingImage = await db.productImage.findFirst({
+      where: { id: params.imageId, productId: params.id }
+    });
+
+    if (!existingImage) {
+      return NextResponse.json(
+        { error: 'Image not found' },
+        { status: 404 }
+      );
+    }
+
+    await db.$transaction(async tx => {
+      await tx.productImage.delete({
+        where: { id: params.imageId }
+      });
+      await compactImagePositions(params.id, tx);
+    });
+
+    await recordAudit(request, authResult, {
+      action: 'product_image.remove',
+      entityType: 'ProductImage',
+      entityId: params.imageId,
+      before: existingImage,
+      metadata: { productId: params.id }
+    });
+
+    return NextResponse.json(
+      { message: 'Image removed successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error removing product image:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove product image' },
+      { status: 500 }
+    );
+  }
+}
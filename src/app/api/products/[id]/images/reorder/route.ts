@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { PRODUCT_IMAGE_ORDER, productImageOrderSchema, toPublicProductImage } from '@/lib/product-images';
+
+// POST put a product's images in a new order
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const body = await request.json();
+    const { imageIds } = productImageOrderSchema.parse(body);
+
+    const images = await db.productImage.findMany({
+      where: { productId: params.id },
+      orderBy: PRODUCT_IMAGE_ORDER,
+      select: { id: true }
+    });
+
+    const currentIds = images.map(image => image.id);
+
+    // The new order must name every image exactly once
+    if (
+      imageIds.length !== currentIds.length ||
+      new Set(imageIds).size !== imageIds.length ||
+      !imageIds.every(id => currentIds.includes(id))
+    ) {
+      return NextResponse.json(
+        { error: 'imageIds must list every image of the product exactly once' },
+        { status: 400 }
+      );
+    }
+
+    await db.$transaction(
+      imageIds.map((id, position) => db.productImage.update({
+        where: { id },
+        data: { position }
+      }))
+    );
+
+    const reordered = await db.productImage.findMany({
+      where: { productId: params.id },
+      orderBy: PRODUCT_IMAGE_ORDER
+    });
+
+    await recordAudit(request, authResult, {
+      action: 'product_image.reorder',
+      entityType: 'Product',
+      entityId: params.id,
+      before: { imageIds: currentIds },
+      after: { imageIds }
+    });
+
+    return NextResponse.json({ images: reordered.map(toPublicProductImage) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error reordering product images:', error);
+    return NextResponse.json(
+      { error: 'Failed to reorder product images' },
+      { status: 500 }
+    );
+  }
+}
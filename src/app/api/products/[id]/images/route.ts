@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  MAX_PRODUCT_IMAGES,
+  PRODUCT_IMAGE_ORDER,
+  prepareProductImage,
+  productImageSchema,
+  toPublicProductImage
+} from '@/lib/product-images';
+import { canSeeUnpublishedProducts, isProductLive } from '@/lib/product-status';
+
+// GET a product's images, in display order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const product = await db.product.findUnique({
+      where: { id: params.id },
+      select: { id: true, status: true, publishAt: true, unpublishAt: true }
+    });
+
+    // Hidden like the product itself when it isn't on sale
+    if (!product || (!isProductLive(product) && !(await canSeeUnpublishedProducts(request)))) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    const images = await db.productImage.findMany({
+      where: { productId: params.id },
+      orderBy: PRODUCT_IMAGE_ORDER
+    });
+
+    return NextResponse.json({ images: images.map(toPublicProductImage) });
+  } catch (error) {
+    console.error('Error fetching product images:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch product images' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST attach an uploaded file to a product, after its other images
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const body = await request.json();
+    const validatedData = productImageSchema.parse(body);
+
+    const product = await db.product.findUnique({
+      where: { id: params.id },
+      include: {
+        images: {
+          select: { url: true, position: true }
+        }
+      }
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    if (product.images.length >= MAX_PRODUCT_IMAGES) {
+      return NextResponse.json(
+        { error: `A product can have at most ${MAX_PRODUCT_IMAGES} images` },
+        { status: 400 }
+      );
+    }
+
+    if (product.images.some(image => image.url === validatedData.url)) {
+      return NextResponse.json(
+        { error: 'This image is already attached to the product' },
+        { status: 400 }
+      );
+    }
+
+    const prepared = await prepareProductImage(validatedData);
+
+    if ('error' in prepared) {
+      return NextResponse.json(
+        { error: prepared.error },
+        { status: 400 }
+      );
+    }
+
+    const image = await db.productImage.create({
+      data: {
+        ...prepared,
+        productId: params.id,
+        position: product.images.reduce((max, image) => Math.max(max, image.position + 1), 0)
+      }
+    });
+
+    await recordAudit(request, authResult, {
+      action: 'product_image.attach',
+      entityType: 'ProductImage',
+      entityId: image.id,
+      after: image,
+      metadata: { productId: params.id }
+    });
+
+    return NextResponse.json(toPublicProductImage(image), { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error attaching product image:', error);
+    return NextResponse.json(
+      { error: 'Failed to attach product image' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { toPublicVariant } from '@/lib/variants';
+import { getCategoryPath, loadCategories } from '@/lib/categories';
+import { indexProduct, removeProductFromIndex } from '@/lib/search';
+import {
+  findAttributeConflict,
+  productAttributeFields,
+  toProductData,
+  withProductAttributes
+} from '@/lib/product-attributes';
+import { PRODUCT_IMAGE_ORDER, withProductImages } from '@/lib/product-images';
+import { imageManifestSchema, toImageManifestData } from '@/lib/image-processing';
+import {
+  canSeeUnpublishedProducts,
+  isProductLive,
+  productStatusFields,
+  resolveProductStatus
+} from '@/lib/product-status';
 
 // Schema validation for updates
 const productUpdateSchema = z.object({
@@ -10,12 +29,14 @@ const productUpdateSchema = z.object({
   price: z.number().positive().optional(),
   originalPrice: z.number().positive().optional(),
   image: z.string().url().optional(),
-  images: z.string().optional(), // JSON string
+  imageManifest: imageManifestSchema.nullable().optional(),
   sku: z.string().optional(),
   stock: z.number().int().min(0).optional(),
   isActive: z.boolean().optional(),
+  ...productStatusFields,
   isFeatured: z.boolean().optional(),
   categoryId: z.string().min(1).optional(),
+  ...productAttributeFields,
 });
 
 // GET single product
@@ -28,6 +49,16 @@ export async function GET(
       where: { id: params.id },
       include: {
         category: true,
+        images: {
+          orderBy: PRODUCT_IMAGE_ORDER
+        },
+        variants: {
+          where: { isActive: true },
+          orderBy: [
+            { position: 'asc' },
+            { createdAt: 'asc' }
+          ]
+        },
         reviews: {
           include: {
             user: {
@@ -43,7 +74,8 @@ export async function GET(
       }
     });
 
-    if (!product) {
+    // Drafts, scheduled and archived products are hidden from shoppers
+    if (!product || (!isProductLive(product) && !(await canSeeUnpublishedProducts(request)))) {
       return NextResponse.json(
         { error: 'Product not found' },
         { status: 404 }
@@ -56,7 +88,9 @@ export async function GET(
       : 0;
 
     return NextResponse.json({
-      ...product,
+      ...withProductImages(withProductAttributes(product)),
+      variants: product.variants.map(toPublicVariant),
+      breadcrumb: getCategoryPath(await loadCategories(), product.categoryId),
       averageRating,
       reviewCount: product.reviews.length
     });
@@ -75,6 +109,12 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
     const body = await request.json();
     const validatedData = productUpdateSchema.parse(body);
 
@@ -90,6 +130,44 @@ export async function PUT(
       );
     }
 
+    // Allergens and dietary tags are checked together, as either may be
+    // updated on its own
+    const currentAttributes = withProductAttributes(existingProduct);
+    const attributeConflict = findAttributeConflict({
+      allergens: validatedData.allergens !== undefined ? validatedData.allergens : currentAttributes.allergens,
+      dietaryTags: validatedData.dietaryTags !== undefined ? validatedData.dietaryTags : currentAttributes.dietaryTags
+    });
+
+    if (attributeConflict) {
+      return NextResponse.json(
+        { error: attributeConflict },
+        { status: 400 }
+      );
+    }
+
+    const schedule = resolveProductStatus(validatedData, existingProduct);
+
+    if ('error' in schedule) {
+      return NextResponse.json(
+        { error: schedule.error },
+        { status: 400 }
+      );
+    }
+
+    // Stock of a product with variants is the total of its variants
+    if (validatedData.stock !== undefined) {
+      const variantCount = await db.productVariant.count({
+        where: { productId: params.id }
+      });
+
+      if (variantCount > 0) {
+        return NextResponse.json(
+          { error: 'Stock of a product with variants is managed per variant', code: 'PRODUCT_HAS_VARIANTS' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Check for duplicate slug or SKU if updating those fields
     if (validatedData.slug || validatedData.sku) {
       const duplicateProduct = await db.product.findFirst({
@@ -128,15 +206,31 @@ export async function PUT(
       }
     }
 
+    const { imageManifest, status, publishAt, unpublishAt, ...productData } = validatedData;
+
     const updatedProduct = await db.product.update({
       where: { id: params.id },
-      data: validatedData,
+      data: {
+        ...toProductData(productData),
+        ...schedule,
+        ...toImageManifestData(imageManifest)
+      },
       include: {
         category: true
       }
     });
 
-    return NextResponse.json(updatedProduct);
+    await indexProduct(params.id);
+
+    await recordAudit(request, authResult, {
+      action: 'product.update',
+      entityType: 'Product',
+      entityId: params.id,
+      before: existingProduct,
+      after: updatedProduct
+    });
+
+    return NextResponse.json(withProductImages(withProductAttributes(updatedProduct)));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -159,6 +253,12 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
     // Check if product exists
     const existingProduct = await db.product.findUnique({
       where: { id: params.id },
@@ -176,10 +276,19 @@ export async function DELETE(
 
     // Check if product is in any orders
     if (existingProduct.orderItems.length > 0) {
-      // Instead of deleting, just deactivate it
+      // Instead of deleting, just archive it
       await db.product.update({
         where: { id: params.id },
-        data: { isActive: false }
+        data: { status: 'ARCHIVED', isActive: false }
+      });
+
+      await recordAudit(request, authResult, {
+        action: 'product.deactivate',
+        entityType: 'Product',
+        entityId: params.id,
+        before: { status: existingProduct.status, isActive: existingProduct.isActive },
+        after: { status: 'ARCHIVED', isActive: false },
+        metadata: { reason: 'has_orders' }
       });
 
       return NextResponse.json(
@@ -192,6 +301,14 @@ export async function DELETE(
     await db.product.delete({
       where: { id: params.id }
     });
+    await removeProductFromIndex(params.id);
+
+    await recordAudit(request, authResult, {
+      action: 'product.delete',
+      entityType: 'Product',
+      entityId: params.id,
+      before: existingProduct
+    });
 
     return NextResponse.json(
       { message: 'Product deleted successfully' },
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { syncProductStock, toPublicVariant, variantUpdateSchema } from '@/lib/variants';
+import { indexProduct } from '@/lib/search';
+
+// PUT update a variant
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; variantId: string } }
+) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const body = await request.json();
+    const { options, ...validatedData } = variantUpdateSchema.parse(body);
+
+    const existingVariant = await db.productVariant.findFirst({
+      where: { id: params.variantId, productId: params.id }
+    });
+
+    if (!existingVariant) {
+      return NextResponse.json(
+        { error: 'Variant not found' },
+        { status: 404 }
+      );
+    }
+
+    if (validatedData.sku && validatedData.sku !== existingVariant.sku) {
+      const [productWithSku, variantWithSku] = await Promise.all([
+        db.product.findUnique({ where: { sku: validatedData.sku } }),
+        db.productVariant.findUnique({ where: { sku: validatedData.sku } })
+      ]);
+
+      if (productWithSku || variantWithSku) {
+        return NextResponse.json(
+          { error: 'Product or variant with this SKU already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedVariant = await db.productVariant.update({
+      where: { id: params.variantId },
+      data: {
+        ...validatedData,
+        ...(options && { options: JSON.stringify(options) })
+      }
+    });
+
+    if (validatedData.stock !== undefined || validatedData.isActive !== undefined) {
+      await syncProductStock(params.id);
+    }
+
+    // Variant SKUs are searchable
+    if (validatedData.sku !== undefined) {
+      await indexProduct(params.id);
+    }
+
+    await recordAudit(request, authResult, {
+      action: 'product_variant.update',
+      entityType: 'ProductVariant',
+      entityId: params.variantId,
+      before: existingVariant,
+      after: updatedVariant,
+      metadata: { productId: params.id }
+    });
+
+    return NextResponse.json(toPublicVariant(updatedVariant));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating variant:', error);
+    return NextResponse.json(
+      { error: 'Failed to update variant' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE remove a variant; variants that were ordered are deactivated instead
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; variantId: string } }
+) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const existingVariant = await db.productVariant.findFirst({
+      where: { id: params.variantId, productId: params.id },
+      include: {
+        _count: {
+          select: { orderItems: true }
+        }
+      }
+    });
+
+    if (!existingVariant) {
+      return NextResponse.json(
+        { error: 'Variant not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existingVariant._count.orderItems > 0) {
+      await db.productVariant.update({
+        where: { id: params.variantId },
+        data: { isActive: false }
+      });
+      await syncProductStock(params.id);
+
+      await recordAudit(request, authResult, {
+        action: 'product_variant.deactivate',
+        entityType: 'ProductVariant',
+        entityId: params.variantId,
+        before: { isActive: existingVariant.isActive },
+        after: { isActive: false },
+        metadata: { productId: params.id, reason: 'has_orders' }
+      });
+
+      return NextResponse.json(
+        { message: 'Variant deactivated because it has existing orders' },
+        { status: 200 }
+      );
+    }
+
+    await db.productVariant.delete({
+      where: { id: params.variantId }
+    });
+    await syncProductStock(params.id);
+    await indexProduct(params.id);
+
+    await recordAudit(request, authResult, {
+      action: 'product_variant.delete',
+      entityType: 'ProductVariant',
+      entityId: params.variantId,
+      before: existingVariant,
+      metadata: { productId: params.id }
+    });
+
+    return NextResponse.json(
+      { message: 'Variant deleted successfully' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting variant:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete variant' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { z } from 'zod';
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { syncProductStock, toPublicVariant, variantSchema } from '@/lib/variants';
+import { indexProduct } from '@/lib/search';
+
+// GET variants of a product
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    const product = await db.product.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    const variants = await db.productVariant.findMany({
+      where: {
+        productId: params.id,
+        ...(includeInactive ? {} : { isActive: true })
+      },
+      orderBy: [
+        { position: 'asc' },
+        { createdAt: 'asc' }
+      ]
+    });
+
+    return NextResponse.json({ variants: variants.map(toPublicVariant) });
+  } catch (error) {
+    console.error('Error fetching variants:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch variants' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST add a variant to a product
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const body = await request.json();
+    const { options, ...validatedData } = variantSchema.parse(body);
+
+    const product = await db.product.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    });
+
+    if (!product) {
+      return NextResponse.json(
+        { error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    // Variant SKUs share the namespace of product SKUs
+    if (validatedData.sku) {
+      const [productWithSku, variantWithSku] = await Promise.all([
+        db.product.findUnique({ where: { sku: validatedData.sku } }),
+        db.productVariant.findUnique({ where: { sku: validatedData.sku } })
+      ]);
+
+      if (productWithSku || variantWithSku) {
+        return NextResponse.json(
+          { error: 'Product or variant with this SKU already exists' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const variant = await db.productVariant.create({
+      data: {
+        ...validatedData,
+        options: JSON.stringify(options),
+        productId: params.id
+      }
+    });
+
+    await syncProductStock(params.id);
+    await indexProduct(params.id);
+
+    await recordAudit(request, authResult, {
+      action: 'product_variant.create',
+      entityType: 'ProductVariant',
+      entityId: variant.id,
+      after: variant,
+      metadata: { productId: params.id }
+    });
+
+    return NextResponse.json(toPublicVariant(variant), { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating variant:', error);
+    return NextResponse.json(
+      { error: 'Failed to create variant' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,94 +1,231 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-
-// Schema validation
-const productSchema = z.object({
-  name: z.string().min(1),
-  slug: z.string().min(1),
-  description: z.string().optional(),
-  price: z.number().positive(),
-  originalPrice: z.number().positive().optional(),
-  image: z.string().url().optional(),
-  images: z.string().optional(), // JSON string
-  sku: z.string().optional(),
-  stock: z.number().int().min(0).default(0),
-  isActive: z.boolean().default(true),
-  isFeatured: z.boolean().default(false),
-  categoryId: z.string().min(1),
-});
+import { requirePermission } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { getDescendantIds, loadCategories } from '@/lib/categories';
+import { indexProduct, searchProducts } from '@/lib/search';
+import {
+  applyProductFilters,
+  combineWhere,
+  getProductFacets,
+  getUnitsSold,
+  parseProductFilters,
+  isRankedSort,
+  productSortSpec
+} from '@/lib/product-filters';
+import {
+  pageArgs,
+  paginateRanked,
+  paginateResults,
+  parsePagination,
+  sortOrderBy,
+  withCursor
+} from '@/lib/pagination';
+import {
+  findAttributeConflict,
+  toProductData,
+  withProductAttributes
+} from '@/lib/product-attributes';
+import {
+  PRODUCT_IMAGE_ORDER,
+  prepareProductImage,
+  withProductImages
+} from '@/lib/product-images';
+import { toImageManifestData } from '@/lib/image-processing';
+import { productSchema } from '@/lib/products';
+import {
+  PRODUCT_STATUSES,
+  canSeeUnpublishedProducts,
+  liveProductWhere,
+  resolveProductStatus
+} from '@/lib/product-status';
 
 // GET all products
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
     const category = searchParams.get('category');
+    const includeDescendants = searchParams.get('includeDescendants') === 'true';
     const featured = searchParams.get('featured');
     const search = searchParams.get('search');
     const isActive = searchParams.get('isActive');
 
-    const skip = (page - 1) * limit;
+    const filterResult = parseProductFilters(searchParams);
+
+    if (!filterResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: filterResult.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const filters = filterResult.data;
+
+    // Searches default to relevance, and relevance needs a search
+    const sort = filters.sort === 'relevance' && !search
+      ? 'newest'
+      : filters.sort ?? (search ? 'relevance' : 'newest');
+    const sortSpec = productSortSpec(sort);
 
-    const where: any = {};
+    const pagination = parsePagination(searchParams, {
+      sort: isRankedSort(sort) ? sort : sortSpec
+    });
+    if (pagination instanceof NextResponse) {
+      return pagination;
+    }
+
+    const base: Prisma.ProductWhereInput[] = [];
+    let categoryWhere: Prisma.ProductWhereInput | undefined;
     
-    if (category) {
-      where.category = {
-        slug: category
+    if (category && includeDescendants) {
+      // Products anywhere below the category, e.g. Frozen Meals also
+      // lists Indian > Curries
+      const categories = await loadCategories();
+      const root = categories.find(c => c.slug === category);
+
+      categoryWhere = {
+        categoryId: {
+          in: root ? getDescendantIds(categories, root.id) : []
+        }
+      };
+    } else if (category) {
+      categoryWhere = {
+        category: {
+          slug: category
+        }
       };
     }
     
     if (featured === 'true') {
-      where.isFeatured = true;
+      base.push({ isFeatured: true });
     }
     
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } }
-      ];
+    // Full-text matches, most relevant first
+    const searchHits = search ? await searchProducts(search) : null;
+
+    if (searchHits) {
+      base.push({
+        id: {
+          in: searchHits.map(hit => hit.productId)
+        }
+      });
     }
     
     if (isActive !== null) {
-      where.isActive = isActive === 'true';
+      base.push({ isActive: isActive === 'true' });
     }
 
-    const [products, total] = await Promise.all([
-      db.product.findMany({
+    // Shoppers only see products on sale now; staff see every product and
+    // can filter by status
+    if (await canSeeUnpublishedProducts(request)) {
+      const status = searchParams.get('status');
+
+      if (status) {
+        const statuses = status.split(',').map(value => value.trim().toUpperCase());
+        const invalid = statuses.filter(value => !(PRODUCT_STATUSES as readonly string[]).includes(value));
+
+        if (invalid.length > 0) {
+          return NextResponse.json(
+            { error: `Invalid status: ${invalid.join(', ')}` },
+            { status: 400 }
+          );
+        }
+
+        base.push({ status: { in: statuses as typeof PRODUCT_STATUSES[number][] } });
+      }
+    } else {
+      base.push(liveProductWhere());
+    }
+
+    const whereParts = applyProductFilters({ base, category: categoryWhere }, filters);
+    const where = combineWhere(whereParts);
+
+    const include = {
+      category: true,
+      images: {
+        orderBy: PRODUCT_IMAGE_ORDER
+      },
+      reviews: {
+        select: {
+          rating: true
+        }
+      }
+    };
+
+    let products;
+    let pageInfo;
+
+    if (isRankedSort(sort)) {
+      // Ranked in code: apply the filters, then page through the ranked ids
+      const matching = await db.product.findMany({
         where,
-        include: {
-          category: true,
-          reviews: {
-            select: {
-              rating: true
-            }
-          }
-        },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
-      }),
-      db.product.count({ where })
-    ]);
+        select: { id: true },
+        orderBy: { createdAt: 'desc' }
+      });
+      let rankedIds: string[];
+
+      if (sort === 'relevance') {
+        const matchingIds = new Set(matching.map(product => product.id));
+        rankedIds = searchHits!
+          .map(hit => hit.productId)
+          .filter(id => matchingIds.has(id));
+      } else {
+        // Most units sold first; ties stay newest first
+        const unitsSold = await getUnitsSold(matching.map(product => product.id));
+        rankedIds = matching
+          .map(product => product.id)
+          .sort((a, b) => (unitsSold.get(b) ?? 0) - (unitsSold.get(a) ?? 0));
+      }
+
+      const ranked = paginateRanked(pagination, rankedIds, sort);
+      const pageIds = ranked.items;
+      pageInfo = ranked.pagination;
+
+      const pageProducts = await db.product.findMany({
+        where: { id: { in: pageIds } },
+        include
+      });
+
+      products = pageIds
+        .map(id => pageProducts.find(product => product.id === id))
+        .filter(product => product !== undefined);
+    } else {
+      const [productsPage, total] = await Promise.all([
+        db.product.findMany({
+          where: withCursor(where, pagination, sortSpec),
+          include,
+          orderBy: sortOrderBy(sortSpec),
+          ...pageArgs(pagination),
+        }),
+        db.product.count({ where })
+      ]);
+
+      ({ items: products, pagination: pageInfo } = paginateResults(pagination, productsPage, total, sortSpec));
+    }
+
+    const facets = filters.facets ? await getProductFacets(whereParts) : undefined;
 
     // Calculate average rating for each product
-    const productsWithRating = products.map(product => ({
-      ...product,
-      averageRating: product.reviews.length > 0 
-        ? product.reviews.reduce((sum, review) => sum + review.rating, 0) / product.reviews.length 
-        : 0,
-      reviewCount: product.reviews.length
-    }));
+    const productsWithRating = products.map(product => {
+      const hit = searchHits?.find(h => h.productId === product.id);
+
+      return {
+        ...withProductImages(withProductAttributes(product)),
+        averageRating: product.reviews.length > 0 
+          ? product.reviews.reduce((sum, review) => sum + review.rating, 0) / product.reviews.length 
+          : 0,
+        reviewCount: product.reviews.length,
+        ...(hit && { relevance: -hit.rank, highlight: hit.highlight })
+      };
+    });
 
     return NextResponse.json({
       products: productsWithRating,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+      pagination: pageInfo,
+      sort,
+      ...(facets && { facets })
     });
   } catch (error) {
     console.error('Error fetching products:', error);
@@ -102,9 +239,31 @@ export async function GET(request: NextRequest) {
 // POST create new product
 export async function POST(request: NextRequest) {
   try {
+    // Check admin permission
+    const authResult = await requirePermission(request, 'products:write');
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
     const body = await request.json();
     const validatedData = productSchema.parse(body);
 
+    const attributeConflict = findAttributeConflict(validatedData);
+    if (attributeConflict) {
+      return NextResponse.json(
+        { error: attributeConflict },
+        { status: 400 }
+      );
+    }
+
+    const schedule = resolveProductStatus(validatedData);
+    if ('error' in schedule) {
+      return NextResponse.json(
+        { error: schedule.error },
+        { status: 400 }
+      );
+    }
+
     // Check if product with same slug or SKU already exists
     const existingProduct = await db.product.findFirst({
       where: {
@@ -134,14 +293,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { images, imageManifest, status, publishAt, unpublishAt, ...productData } = validatedData;
+    const preparedImages: Prisma.ProductImageCreateWithoutProductInput[] = [];
+
+    for (const image of images ?? []) {
+      const prepared = await prepareProductImage(image);
+
+      if ('error' in prepared) {
+        return NextResponse.json(
+          { error: prepared.error },
+          { status: 400 }
+        );
+      }
+
+      preparedImages.push({ ...prepared, position: preparedImages.length });
+    }
+
     const product = await db.product.create({
-      data: validatedData,
+      data: {
+        ...toProductData(productData),
+        ...schedule,
+        ...toImageManifestData(imageManifest),
+        images: {
+          create: preparedImages
+        }
+      },
       include: {
-        category: true
+        category: true,
+        images: {
+          orderBy: PRODUCT_IMAGE_ORDER
+        }
       }
     });
 
-    return NextResponse.json(product, { status: 201 });
+    await indexProduct(product.id);
+
+    await recordAudit(request, authResult, {
+      action: 'product.create',
+      entityType: 'Product',
+      entityId: product.id,
+      after: product
+    });
+
+    return NextResponse.json(withProductImages(withProductAttributes(product)), { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { z } from 'zod';
-import { requireAuth, requireAdmin } from '@/lib/auth';
+import { requireAdmin, requireVerifiedUser } from '@/lib/auth';
+import { pageArgs, paginateResults, parsePagination, sortOrderBy, withCursor } from '@/lib/pagination';
 
 const reviewSchema = z.object({
   productId: z.string(),
@@ -13,14 +14,15 @@ const reviewSchema = z.object({
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
     const productId = searchParams.get('productId');
     const userId = searchParams.get('userId');
     const rating = searchParams.get('rating');
     const isActive = searchParams.get('isActive');
 
-    const skip = (page - 1) * limit;
+    const pagination = parsePagination(searchParams);
+    if (pagination instanceof NextResponse) {
+      return pagination;
+    }
 
     const where: any = {};
     
@@ -40,9 +42,9 @@ export async function GET(request: NextRequest) {
       where.isActive = isActive === 'true';
     }
 
-    const [reviews, total] = await Promise.all([
+    const [reviewsPage, total] = await Promise.all([
       db.review.findMany({
-        where,
+        where: withCursor(where, pagination),
         include: {
           user: {
             select: {
@@ -59,21 +61,17 @@ export async function GET(request: NextRequest) {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit,
+        orderBy: sortOrderBy(),
+        ...pageArgs(pagination),
       }),
       db.review.count({ where })
     ]);
 
+    const { items: reviews, pagination: pageInfo } = paginateResults(pagination, reviewsPage, total);
+
     return NextResponse.json({
       reviews,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+      pagination: pageInfo
     });
   } catch (error) {
     console.error('Error fetching reviews:', error);
@@ -90,8 +88,8 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = reviewSchema.parse(body);
 
-    // Check authentication
-    const authResult = await requireAuth(request);
+    // Check authentication and email verification
+    const authResult = await requireVerifiedUser(request);
     if (authResult instanceof NextResponse) {
       return authResult;
     }
@@ -0,0 +1,15 @@
+import { LoginForm } from "@/components/auth/login-form"
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>
+}) {
+  const { next } = await searchParams
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <LoginForm next={next ?? null} />
+    </div>
+  )
+}
@@ -0,0 +1,16 @@
+import { TwoFactorSetup } from "@/components/auth/two-factor-setup"
+
+// Linked from the setup email as /two-factor-setup?token=...
+export default async function TwoFactorSetupPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>
+}) {
+  const { token } = await searchParams
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <TwoFactorSetup setupToken={token ?? null} />
+    </div>
+  )
+}
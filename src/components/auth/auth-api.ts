@@ -0,0 +1,44 @@
+// Browser calls to the auth API with a cookie session (see
+// src/lib/auth-cookies.ts): logins ask for cookies, and requests made with
+// them echo the CSRF cookie back in X-CSRF-Token.
+
+const CSRF_COOKIE = "snazo_csrf"
+
+function readCookie(name: string): string | null {
+  const prefix = `${name}=`
+  const cookie = document.cookie.split("; ").find((part) => part.startsWith(prefix))
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null
+}
+
+export interface AuthApiResult<T> {
+  ok: boolean
+  status: number
+  data: T & { error?: string; code?: string }
+}
+
+export async function postAuthApi<T = Record<string, unknown>>(
+  path: string,
+  body: Record<string, unknown> = {}
+): Promise<AuthApiResult<T>> {
+  const csrfToken = readCookie(CSRF_COOKIE)
+
+  const response = await fetch(path, {
+    method: "POST",
+    credentials: "same-origin",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Auth-Mode": "cookie",
+      ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json().catch(() => ({}))
+
+  return { ok: response.ok, status: response.status, data }
+}
+
+// Where to go after signing in: only paths on this site, never another origin
+export function safeRedirectPath(next: string | null): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/"
+}
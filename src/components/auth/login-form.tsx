@@ -0,0 +1,173 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { TwoFactorCodeForm } from "@/components/auth/two-factor-code-form"
+import { postAuthApi, safeRedirectPath } from "@/components/auth/auth-api"
+
+interface LoginFormProps {
+  // Path to continue to once signed in
+  next: string | null
+}
+
+// Password login, followed by the two-factor challenge for accounts that
+// have it enabled
+function LoginForm({ next }: LoginFormProps) {
+  const router = useRouter()
+  const [email, setEmail] = React.useState("")
+  const [password, setPassword] = React.useState("")
+  const [challengeToken, setChallengeToken] = React.useState<string | null>(null)
+  const [useRecoveryCode, setUseRecoveryCode] = React.useState(false)
+  const [recoveryCode, setRecoveryCode] = React.useState("")
+  const [error, setError] = React.useState<string | null>(null)
+  const [pending, setPending] = React.useState(false)
+
+  const finish = () => {
+    router.push(safeRedirectPath(next))
+  }
+
+  const login = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setPending(true)
+    setError(null)
+    try {
+      const result = await postAuthApi<{
+        twoFactorRequired?: boolean
+        challengeToken?: string
+      }>("/api/auth/login", { email, password })
+
+      if (!result.ok) {
+        setError(result.data.error ?? "Could not sign in")
+      } else if (result.data.twoFactorRequired && result.data.challengeToken) {
+        setChallengeToken(result.data.challengeToken)
+      } else {
+        finish()
+      }
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const verify = async (secondFactor: { code: string } | { recoveryCode: string }) => {
+    setError(null)
+
+    const result = await postAuthApi("/api/auth/2fa/verify", {
+      challengeToken,
+      ...secondFactor,
+    })
+
+    if (result.ok) {
+      finish()
+    } else if (result.data.error === "Invalid or expired challenge token") {
+      // Challenges last 5 minutes; start over with the password
+      setChallengeToken(null)
+      setPassword("")
+      setError("Your sign-in expired, please try again")
+    } else {
+      setError(result.data.error ?? "Could not verify the code")
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Sign in</CardTitle>
+        {challengeToken && (
+          <CardDescription>
+            {useRecoveryCode
+              ? "Enter one of your recovery codes."
+              : "Enter the 6-digit code from your authenticator app."}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {!challengeToken && (
+          <form className="flex flex-col gap-4" onSubmit={login}>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                required
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+              />
+            </div>
+            {error && <p className="text-destructive text-sm">{error}</p>}
+            <Button type="submit" disabled={pending}>
+              Sign in
+            </Button>
+          </form>
+        )}
+
+        {challengeToken && !useRecoveryCode && (
+          <TwoFactorCodeForm onSubmit={(code) => verify({ code })} error={error} />
+        )}
+
+        {challengeToken && useRecoveryCode && (
+          <form
+            className="flex flex-col gap-4"
+            onSubmit={async (event) => {
+              event.preventDefault()
+              setPending(true)
+              try {
+                await verify({ recoveryCode })
+              } finally {
+                setPending(false)
+              }
+            }}
+          >
+            <Input
+              aria-label="Recovery code"
+              autoComplete="one-time-code"
+              required
+              value={recoveryCode}
+              onChange={(event) => setRecoveryCode(event.target.value)}
+            />
+            {error && <p className="text-destructive text-sm">{error}</p>}
+            <Button type="submit" disabled={pending}>
+              Verify
+            </Button>
+          </form>
+        )}
+
+        {challengeToken && (
+          <Button
+            variant="link"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode)
+              setError(null)
+            }}
+          >
+            {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export { LoginForm }
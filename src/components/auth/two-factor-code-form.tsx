@@ -0,0 +1,80 @@
+"use client"
+
+import * as React from "react"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+
+import { Button } from "@/components/ui/button"
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSeparator,
+  InputOTPSlot,
+} from "@/components/ui/input-otp"
+
+interface TwoFactorCodeFormProps {
+  // Called with the 6-digit code, e.g. to POST /api/auth/2fa/enable or /verify
+  onSubmit: (code: string) => Promise<void> | void
+  submitLabel?: string
+  error?: string | null
+}
+
+// Shared by the enrollment and login verification screens
+function TwoFactorCodeForm({
+  onSubmit,
+  submitLabel = "Verify",
+  error,
+}: TwoFactorCodeFormProps) {
+  const [code, setCode] = React.useState("")
+  const [pending, setPending] = React.useState(false)
+
+  const submit = async (value: string) => {
+    if (value.length !== 6 || pending) return
+
+    setPending(true)
+    try {
+      await onSubmit(value)
+    } finally {
+      setPending(false)
+      setCode("")
+    }
+  }
+
+  return (
+    <form
+      className="flex flex-col items-center gap-4"
+      onSubmit={(event) => {
+        event.preventDefault()
+        submit(code)
+      }}
+    >
+      <InputOTP
+        maxLength={6}
+        pattern={REGEXP_ONLY_DIGITS}
+        value={code}
+        onChange={setCode}
+        onComplete={submit}
+        disabled={pending}
+        autoFocus
+        aria-invalid={!!error}
+      >
+        <InputOTPGroup>
+          <InputOTPSlot index={0} aria-invalid={!!error} />
+          <InputOTPSlot index={1} aria-invalid={!!error} />
+          <InputOTPSlot index={2} aria-invalid={!!error} />
+        </InputOTPGroup>
+        <InputOTPSeparator />
+        <InputOTPGroup>
+          <InputOTPSlot index={3} aria-invalid={!!error} />
+          <InputOTPSlot index={4} aria-invalid={!!error} />
+          <InputOTPSlot index={5} aria-invalid={!!error} />
+        </InputOTPGroup>
+      </InputOTP>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+      <Button type="submit" disabled={code.length !== 6 || pending}>
+        {submitLabel}
+      </Button>
+    </form>
+  )
+}
+
+export { TwoFactorCodeForm }
@@ -0,0 +1,169 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { TwoFactorCodeForm } from "@/components/auth/two-factor-code-form"
+import { postAuthApi } from "@/components/auth/auth-api"
+
+interface TwoFactorSetupProps {
+  // Setup token from the emailed link; without one, setup is started here
+  setupToken: string | null
+}
+
+type SetupState =
+  | { step: "start" }
+  | { step: "emailed"; secret: string; otpauthUri: string }
+  | { step: "confirm" }
+  | { step: "done"; recoveryCodes: string[] }
+  | { step: "signed-out" }
+
+// Enrollment in two visits: starting setup shows the secret for the
+// authenticator app and emails a link; the link brings the user back here
+// to confirm with a code
+function TwoFactorSetup({ setupToken }: TwoFactorSetupProps) {
+  const [state, setState] = React.useState<SetupState>(
+    setupToken ? { step: "confirm" } : { step: "start" }
+  )
+  const [error, setError] = React.useState<string | null>(null)
+  const [pending, setPending] = React.useState(false)
+
+  const start = async () => {
+    setPending(true)
+    setError(null)
+    try {
+      const result = await postAuthApi<{ secret: string; otpauthUri: string }>(
+        "/api/auth/2fa/setup"
+      )
+
+      if (result.status === 401) {
+        setState({ step: "signed-out" })
+      } else if (!result.ok) {
+        setError(result.data.error ?? "Could not start two-factor setup")
+      } else {
+        setState({
+          step: "emailed",
+          secret: result.data.secret,
+          otpauthUri: result.data.otpauthUri,
+        })
+      }
+    } finally {
+      setPending(false)
+    }
+  }
+
+  const confirm = async (code: string) => {
+    setError(null)
+
+    const result = await postAuthApi<{ recoveryCodes: string[] }>(
+      "/api/auth/2fa/enable",
+      { code, setupToken }
+    )
+
+    if (result.status === 401) {
+      setState({ step: "signed-out" })
+    } else if (!result.ok) {
+      setError(result.data.error ?? "Could not enable two-factor authentication")
+    } else {
+      setState({ step: "done", recoveryCodes: result.data.recoveryCodes })
+    }
+  }
+
+  const signInPath = `/login?next=${encodeURIComponent(
+    setupToken
+      ? `/two-factor-setup?token=${encodeURIComponent(setupToken)}`
+      : "/two-factor-setup"
+  )}`
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          Protect your account with codes from an authenticator app.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {state.step === "start" && (
+          <>
+            <p className="text-sm">
+              We'll show you a key for your authenticator app and email you a
+              link to finish setting it up.
+            </p>
+            {error && <p className="text-destructive text-sm">{error}</p>}
+            <Button onClick={start} disabled={pending}>
+              Start setup
+            </Button>
+          </>
+        )}
+
+        {state.step === "emailed" && (
+          <>
+            <p className="text-sm">
+              Add this key to your authenticator app, or open the link on the
+              device that has it:
+            </p>
+            <code className="bg-muted rounded p-2 text-center font-mono text-sm break-all">
+              {state.secret}
+            </code>
+            <a className="text-sm underline break-all" href={state.otpauthUri}>
+              Open in authenticator app
+            </a>
+            <p className="text-sm">
+              Then open the link we emailed you to confirm with a code. It
+              expires in 30 minutes.
+            </p>
+          </>
+        )}
+
+        {state.step === "confirm" && (
+          <>
+            <p className="text-sm">
+              Enter the 6-digit code from your authenticator app.
+            </p>
+            <TwoFactorCodeForm
+              onSubmit={confirm}
+              submitLabel="Enable"
+              error={error}
+            />
+          </>
+        )}
+
+        {state.step === "done" && (
+          <>
+            <p className="text-sm">
+              Two-factor authentication is on. Keep these recovery codes
+              somewhere safe: each one signs you in once if you lose your
+              authenticator. They won't be shown again.
+            </p>
+            <ul className="bg-muted grid grid-cols-2 gap-1 rounded p-2 font-mono text-sm">
+              {state.recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        {state.step === "signed-out" && (
+          <p className="text-sm">
+            Please{" "}
+            <Link className="underline" href={signInPath}>
+              sign in
+            </Link>{" "}
+            to continue setting up two-factor authentication.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export { TwoFactorSetup }
@@ -0,0 +1,63 @@
+import { db } from '@/lib/db';
+
+// Failed logins first slow down, then lock the account for a while. Each
+// further run of failures doubles the lock, up to a day.
+const LOCKOUT_THRESHOLD = 5;
+const BASE_LOCKOUT_MINUTES = 15;
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 4000;
+
+export function lockoutRetryAfterSeconds(user: { lockedUntil: Date | null }): number | null {
+  if (!user.lockedUntil || user.lockedUntil <= new Date()) {
+    return null;
+  }
+
+  return Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000);
+}
+
+// Delay applied to a failed attempt before the account is locked
+export function failedLoginDelayMs(failedAttempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** Math.max(0, failedAttempts - 1), MAX_DELAY_MS);
+}
+
+export async function recordFailedLogin(userId: string) {
+  const user = await db.user.update({
+    where: { id: userId },
+    data: {
+      failedLoginAttempts: { increment: 1 },
+      lastFailedLoginAt: new Date()
+    }
+  });
+
+  const attempts = user.failedLoginAttempts;
+  let lockedUntil: Date | null = null;
+
+  if (attempts >= LOCKOUT_THRESHOLD && attempts % LOCKOUT_THRESHOLD === 0) {
+    const lockouts = attempts / LOCKOUT_THRESHOLD;
+    const minutes = Math.min(BASE_LOCKOUT_MINUTES * 2 ** (lockouts - 1), MAX_LOCKOUT_MINUTES);
+    lockedUntil = new Date(Date.now() + minutes * 60 * 1000);
+
+    await db.user.update({
+      where: { id: userId },
+      data: { lockedUntil }
+    });
+  }
+
+  return { failedAttempts: attempts, lockedUntil };
+}
+
+export async function clearFailedLogins(userId: string) {
+  await db.user.update({
+    where: { id: userId },
+    data: {
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null
+    }
+  });
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
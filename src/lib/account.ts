@@ -0,0 +1,90 @@
+import { db } from '@/lib/db';
+import { normalizeEmail } from '@/lib/auth';
+
+// Removes a user's personal data while keeping the row, so their orders
+// (and the totals, items and offers on them) stay intact for accounting
+export async function anonymizeUser(userId: string) {
+  const now = new Date();
+
+  await db.$transaction([
+    db.user.update({
+      where: { id: userId },
+      data: {
+        email: `deleted-${userId}@deleted.invalid`,
+        name: null,
+        password: null,
+        phone: null,
+        address: null,
+        avatar: null,
+        emailVerifiedAt: null,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+        deletedAt: now
+      }
+    }),
+    db.oAuthAccount.deleteMany({
+      where: { userId }
+    }),
+    db.address.deleteMany({
+      where: { userId }
+    }),
+    db.wishlist.deleteMany({
+      where: { userId }
+    }),
+    db.passwordResetToken.deleteMany({
+      where: { userId }
+    }),
+    db.twoFactorRecoveryCode.deleteMany({
+      where: { userId }
+    }),
+    db.apiKey.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now }
+    }),
+    db.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now, revokedReason: 'account_deleted' }
+    })
+  ]);
+}
+
+// Lowercases emails stored before addresses were normalized on the way in,
+// so those accounts are found by lookups. An address that would clash with
+// another account's is left alone and reported. Safe to run more than once.
+export async function normalizeStoredEmails() {
+  const users = await db.user.findMany({
+    select: { id: true, email: true }
+  });
+
+  const taken = new Set(users.map(user => user.email));
+  const conflicts: { userId: string; email: string }[] = [];
+  let normalized = 0;
+
+  for (const user of users) {
+    const email = normalizeEmail(user.email);
+
+    if (email === user.email) {
+      continue;
+    }
+
+    if (taken.has(email)) {
+      conflicts.push({ userId: user.id, email: user.email });
+      continue;
+    }
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { email }
+    });
+
+    taken.delete(user.email);
+    taken.add(email);
+    normalized++;
+  }
+
+  return { normalized, conflicts };
+}
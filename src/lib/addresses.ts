@@ -0,0 +1,117 @@
+import { Address } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+
+// Postcode formats for the countries we ship to most; anything else only
+// gets a loose sanity check
+const POSTCODE_PATTERNS: Record<string, RegExp> = {
+  US: /^\d{5}(-\d{4})?$/,
+  CA: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,
+  GB: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+  IE: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  ES: /^\d{5}$/,
+  IT: /^\d{5}$/,
+  NL: /^\d{4} ?[A-Z]{2}$/i,
+  AU: /^\d{4}$/,
+  IN: /^\d{6}$/,
+};
+
+const GENERIC_POSTCODE = /^[A-Z0-9][A-Z0-9 -]{1,9}$/i;
+
+export function isValidPostcode(postcode: string, country: string): boolean {
+  const pattern = POSTCODE_PATTERNS[country.toUpperCase()] ?? GENERIC_POSTCODE;
+  return pattern.test(postcode.trim());
+}
+
+const addressFields = {
+  label: z.string().max(50).nullable().optional(),
+  recipientName: z.string().min(1).max(100).nullable().optional(),
+  line1: z.string().trim().min(1).max(200),
+  line2: z.string().trim().max(200).nullable().optional(),
+  city: z.string().trim().min(1).max(100),
+  region: z.string().trim().max(100).nullable().optional(),
+  postcode: z.string().trim().min(1).max(20),
+  // ISO 3166-1 alpha-2
+  country: z.string().trim().length(2).transform(value => value.toUpperCase()),
+  phone: z.string().max(30).nullable().optional(),
+  isDefault: z.boolean().optional(),
+};
+
+export const addressSchema = z.object(addressFields).refine(
+  address => isValidPostcode(address.postcode, address.country),
+  { message: 'Invalid postcode for country', path: ['postcode'] }
+);
+
+// Postcode and country are checked together against the merged address in
+// the update route, since either may be omitted
+export const addressUpdateSchema = z.object(addressFields).partial();
+
+export type AddressInput = z.infer<typeof addressSchema>;
+
+// Single-line form kept on orders in `shippingAddress` for older clients
+export function formatAddress(address: Pick<Address,
+  'recipientName' | 'line1' | 'line2' | 'city' | 'region' | 'postcode' | 'country'
+>): string {
+  return [
+    address.recipientName,
+    address.line1,
+    address.line2,
+    [address.city, address.region, address.postcode].filter(Boolean).join(' '),
+    address.country
+  ].filter(Boolean).join(', ');
+}
+
+// Copied onto the order so later edits to the address book don't change it
+export function orderAddressSnapshot(address: Address) {
+  return {
+    shippingAddress: formatAddress(address),
+    shippingName: address.recipientName,
+    shippingLine1: address.line1,
+    shippingLine2: address.line2,
+    shippingCity: address.city,
+    shippingRegion: address.region,
+    shippingPostcode: address.postcode,
+    shippingCountry: address.country,
+    shippingPhone: address.phone
+  };
+}
+
+export async function findUserAddress(userId: string, addressId: string) {
+  return db.address.findFirst({
+    where: { id: addressId, userId }
+  });
+}
+
+export async function getDefaultAddress(userId: string) {
+  return db.address.findFirst({
+    where: { userId, isDefault: true }
+  });
+}
+
+// Makes one address the default and clears the flag on the others
+export async function setDefaultAddress(userId: string, addressId: string) {
+  await db.$transaction([
+    db.address.updateMany({
+      where: { userId, isDefault: true, NOT: { id: addressId } },
+      data: { isDefault: false }
+    }),
+    db.address.update({
+      where: { id: addressId },
+      data: { isDefault: true }
+    })
+  ]);
+}
+
+// After the default is deleted, the most recently updated address takes over
+export async function promoteNextDefaultAddress(userId: string) {
+  const next = await db.address.findFirst({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' }
+  });
+
+  if (next) {
+    await setDefaultAddress(userId, next.id);
+  }
+}
@@ -0,0 +1,116 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { db } from '@/lib/db';
+import { isBackOfficeRole, isPermission, Permission } from '@/lib/permissions';
+
+// Keys look like snz_<prefix>_<secret>. The prefix is stored in clear so a
+// key can be found and recognised in the UI; only a hash of the secret is kept.
+const KEY_PREFIX = 'snz';
+const PREFIX_BYTES = 6;
+const SECRET_BYTES = 32;
+
+// Writing lastUsedAt on every request would turn each read into a write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function generateApiKey(): { key: string; prefix: string; secretHash: string } {
+  const prefix = randomBytes(PREFIX_BYTES).toString('hex');
+  const secret = randomBytes(SECRET_BYTES).toString('base64url');
+
+  return {
+    key: `${KEY_PREFIX}_${prefix}_${secret}`,
+    prefix,
+    secretHash: hashSecret(secret)
+  };
+}
+
+function parseApiKey(key: string): { prefix: string; secret: string } | null {
+  const match = /^snz_([0-9a-f]+)_([A-Za-z0-9_-]+)$/.exec(key.trim());
+  return match ? { prefix: match[1], secret: match[2] } : null;
+}
+
+export function parseScopes(scopes: string): Permission[] {
+  try {
+    const parsed = JSON.parse(scopes);
+    return Array.isArray(parsed) ? parsed.filter(isPermission) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Resolves a presented key to its owner. Revoked and expired keys, and keys
+// whose owner has lost back-office access or been deleted, are rejected.
+export async function authenticateApiKey(key: string, ipAddress: string | null) {
+  const parsed = parseApiKey(key);
+
+  if (!parsed) {
+    return null;
+  }
+
+  const apiKey = await db.apiKey.findUnique({
+    where: { prefix: parsed.prefix },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          emailVerifiedAt: true,
+          deletedAt: true
+        }
+      }
+    }
+  });
+
+  if (!apiKey) {
+    return null;
+  }
+
+  const expected = Buffer.from(apiKey.secretHash, 'hex');
+  const actual = Buffer.from(hashSecret(parsed.secret), 'hex');
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const now = new Date();
+
+  if (
+    apiKey.revokedAt ||
+    (apiKey.expiresAt && apiKey.expiresAt <= now) ||
+    apiKey.user.deletedAt ||
+    !isBackOfficeRole(apiKey.user.role)
+  ) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await db.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now, lastUsedIp: ipAddress }
+    });
+  }
+
+  const { deletedAt, ...user } = apiKey.user;
+
+  return {
+    user,
+    apiKey: {
+      id: apiKey.id,
+      scopes: parseScopes(apiKey.scopes)
+    }
+  };
+}
+
+// Never exposes the secret hash
+export function toPublicApiKey<T extends { secretHash: string; scopes: string }>(apiKey: T) {
+  const { secretHash, ...publicKey } = apiKey;
+
+  return {
+    ...publicKey,
+    scopes: parseScopes(apiKey.scopes)
+  };
+}
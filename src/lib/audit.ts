@@ -0,0 +1,99 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { getClientIp } from '@/lib/sessions';
+
+export interface AuditEntry {
+  action: string; // e.g. "user.export", "product.update"
+  entityType: string;
+  entityId?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+}
+
+// Keeps the record's own columns; included relations (nested objects and
+// arrays) are dropped so a Prisma result can be passed in as-is
+function scalarFields(record: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([, value]) =>
+      value instanceof Date || value === null || typeof value !== 'object'
+    )
+  );
+}
+
+// Field-level diff of two snapshots: { field: { from, to } } for every field
+// that differs. Snapshots without a counterpart are kept whole.
+export function diffSnapshots(
+  before?: Record<string, any> | null,
+  after?: Record<string, any> | null
+): Record<string, any> | null {
+  if (!before && !after) {
+    return null;
+  }
+
+  if (!before || !after) {
+    return {
+      before: before ? scalarFields(before) : null,
+      after: after ? scalarFields(after) : null
+    };
+  }
+
+  before = scalarFields(before);
+  after = scalarFields(after);
+
+  const changes: Record<string, { from: any; to: any }> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (key === 'updatedAt') {
+      continue;
+    }
+
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = { from: before[key] ?? null, to: after[key] ?? null };
+    }
+  }
+
+  return changes;
+}
+
+// Audit logging must never break the action being audited, so failures are
+// only reported
+export async function recordAudit(
+  request: NextRequest,
+  actor: {
+    id: string;
+    apiKey?: { id: string } | null;
+    impersonator?: { id: string } | null;
+  } | null,
+  entry: AuditEntry
+) {
+  try {
+    const changes = diffSnapshots(entry.before, entry.after);
+    let metadata = entry.metadata;
+
+    if (actor?.apiKey) {
+      metadata = { ...metadata, apiKeyId: actor.apiKey.id };
+    }
+
+    // Actions taken while impersonating are attributed to both people
+    if (actor?.impersonator) {
+      metadata = { ...metadata, impersonatorId: actor.impersonator.id };
+    }
+
+    await db.auditLog.create({
+      data: {
+        actorId: actor?.id ?? null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        changes: changes ? JSON.stringify(changes) : null,
+        metadata: metadata ? JSON.stringify(metadata) : null,
+        ipAddress: getClientIp(request),
+        userAgent: request.headers.get('user-agent')
+      }
+    });
+  } catch (error) {
+    console.error('Error recording audit log:', error);
+  }
+}
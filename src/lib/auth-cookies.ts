@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+// Cookie sessions for browser clients. Clients opt in by sending
+// `X-Auth-Mode: cookie` when logging in (or registering, verifying a second
+// factor, exchanging an OIDC code, refreshing). The tokens then travel in
+// HttpOnly cookies instead of the response body, and unsafe requests
+// authenticated by cookie must echo the CSRF cookie in X-CSRF-Token
+// (double-submit). Bearer clients are unaffected.
+
+export const ACCESS_TOKEN_COOKIE = 'snazo_access';
+export const REFRESH_TOKEN_COOKIE = 'snazo_refresh';
+export const CSRF_COOKIE = 'snazo_csrf';
+export const CSRF_HEADER = 'x-csrf-token';
+export const AUTH_MODE_HEADER = 'x-auth-mode';
+
+// The refresh cookie is only sent to the auth routes that read it
+const REFRESH_COOKIE_PATH = '/api/auth';
+const REFRESH_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+function secureCookies(): boolean {
+  return process.env.NODE_ENV === 'production' || (process.env.APP_URL ?? '').startsWith('https://');
+}
+
+export function wantsCookieSession(request: NextRequest): boolean {
+  return request.headers.get(AUTH_MODE_HEADER)?.toLowerCase() === 'cookie';
+}
+
+// True when the request carries no explicit credentials and falls back to
+// the session cookie
+export function usesCookieAuth(request: NextRequest): boolean {
+  return (
+    !request.headers.get('authorization') &&
+    !request.headers.get('x-api-key') &&
+    !!request.cookies.get(ACCESS_TOKEN_COOKIE)?.value
+  );
+}
+
+export function getAccessTokenCookie(request: NextRequest): string | null {
+  return request.cookies.get(ACCESS_TOKEN_COOKIE)?.value || null;
+}
+
+export function getRefreshTokenCookie(request: NextRequest): string | null {
+  return request.cookies.get(REFRESH_TOKEN_COOKIE)?.value || null;
+}
+
+function generateCsrfToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// Safe methods pass; unsafe ones need the header to match the cookie
+export function hasValidCsrfToken(request: NextRequest): boolean {
+  if (SAFE_METHODS.includes(request.method.toUpperCase())) {
+    return true;
+  }
+
+  const cookieToken = request.cookies.get(CSRF_COOKIE)?.value;
+  const headerToken = request.headers.get(CSRF_HEADER);
+
+  if (!cookieToken || !headerToken) {
+    return false;
+  }
+
+  const expected = Buffer.from(cookieToken);
+  const actual = Buffer.from(headerToken);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function csrfFailedResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Missing or invalid CSRF token', code: 'CSRF_TOKEN_INVALID' },
+    { status: 403 }
+  );
+}
+
+export function setSessionCookies(
+  response: NextResponse,
+  tokens: { token: string; refreshToken: string; expiresIn: number },
+  csrfToken: string
+) {
+  const secure = secureCookies();
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokens.token, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: tokens.expiresIn
+  });
+
+  response.cookies.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'strict',
+    path: REFRESH_COOKIE_PATH,
+    maxAge: REFRESH_COOKIE_MAX_AGE_SECONDS
+  });
+
+  // Readable by the page so it can echo it back in X-CSRF-Token
+  response.cookies.set(CSRF_COOKIE, csrfToken, {
+    httpOnly: false,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: REFRESH_COOKIE_MAX_AGE_SECONDS
+  });
+}
+
+export function clearSessionCookies(response: NextResponse) {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, '', { path: '/', maxAge: 0 });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, '', { path: REFRESH_COOKIE_PATH, maxAge: 0 });
+  response.cookies.set(CSRF_COOKIE, '', { path: '/', maxAge: 0 });
+}
+
+// Responds to a successful login or refresh. Bearer clients get the tokens
+// in the body as before; cookie clients get cookies plus the CSRF token.
+export function sessionResponse(
+  request: NextRequest,
+  tokens: { token: string; refreshToken: string; expiresIn: number },
+  body: Record<string, unknown> = {},
+  options: { status?: number; cookie?: boolean } = {}
+): NextResponse {
+  const { token, refreshToken, expiresIn } = tokens;
+  const init = { status: options.status ?? 200 };
+
+  if (!(options.cookie ?? wantsCookieSession(request))) {
+    return NextResponse.json({ ...body, token, refreshToken, expiresIn }, init);
+  }
+
+  // The CSRF token is also returned in the body, for pages that can't read
+  // the cookie (e.g. served from another origin)
+  const csrfToken = generateCsrfToken();
+  const response = NextResponse.json({ ...body, expiresIn, csrfToken }, init);
+  setSessionCookies(response, tokens, csrfToken);
+
+  return response;
+}
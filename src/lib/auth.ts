@@ -1,55 +1,162 @@
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { Role } from '@prisma/client';
 import { db } from '@/lib/db';
+import { hasPermission, isBackOfficeRole, Permission } from '@/lib/permissions';
+import { authenticateApiKey } from '@/lib/api-keys';
+import {
+  csrfFailedResponse,
+  getAccessTokenCookie,
+  hasValidCsrfToken,
+  usesCookieAuth
+} from '@/lib/auth-cookies';
+import { getClientIp } from '@/lib/sessions';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 
+// Access tokens are short-lived; clients renew them through /api/auth/refresh
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// scrypt cost parameters for new hashes. Stored hashes carry their own
+// parameters, so raising these only affects passwords hashed afterwards
+// (and existing ones on their next successful login).
+const SCRYPT_LOG_N = 15;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_SALT_LENGTH = 16;
+
 export interface AuthUser {
   id: string;
   email: string;
-  name?: string;
-  role: 'USER' | 'ADMIN';
+  name: string | null;
+  role: Role;
+  emailVerifiedAt: Date | null;
+  // Null when authenticated with an API key
+  sessionId: string | null;
+  // Whether this session completed the second factor (TOTP or recovery code)
+  mfaVerified: boolean;
+  // Set when authenticated with an X-Api-Key header; the key can only use
+  // permissions in its scopes
+  apiKey: { id: string; scopes: Permission[] } | null;
+  // The admin behind an impersonation session; id/email/role above are the
+  // impersonated user's
+  impersonator: { id: string; email: string; name: string | null } | null;
+}
+
+// A user signed in through a session, as opposed to an API key
+export interface SessionUser extends AuthUser {
+  sessionId: string;
+  apiKey: null;
 }
 
 export async function verifyAuth(request: NextRequest): Promise<AuthUser | null> {
   try {
-    const authHeader = request.headers.get('authorization');
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
+    const apiKeyHeader = request.headers.get('x-api-key');
+
+    if (apiKeyHeader) {
+      const result = await authenticateApiKey(apiKeyHeader, getClientIp(request));
+
+      if (!result) {
+        return null;
+      }
+
+      // Keys are created from a session that passed two-factor authentication
+      return {
+        ...result.user,
+        sessionId: null,
+        mfaVerified: true,
+        apiKey: result.apiKey,
+        impersonator: null
+      };
     }
 
-    const token = authHeader.substring(7);
+    let token: string | null = null;
+
+    if (usesCookieAuth(request)) {
+      // Browsers send cookies on their own, so a cookie alone doesn't prove
+      // the request came from our page
+      if (!hasValidCsrfToken(request)) {
+        return null;
+      }
+
+      token = getAccessTokenCookie(request);
+    } else {
+      const authHeader = request.headers.get('authorization');
+
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return null;
+      }
+
+      token = authHeader.substring(7);
+    }
     
     if (!token) {
       return null;
     }
 
     const decoded = jwt.verify(token, JWT_SECRET) as any;
+
+    // Purpose tokens (email links, challenges) are never access tokens
+    if (!decoded.sid || decoded.purpose) {
+      return null;
+    }
     
-    // Fetch user from database to ensure they still exist and get current role
-    const user = await db.user.findUnique({
-      where: { id: decoded.id },
+    // Fetch the session to ensure it hasn't been revoked, and the user to
+    // ensure they still exist and get their current role
+    const session = await db.session.findFirst({
+      where: {
+        id: decoded.sid,
+        userId: decoded.id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() }
+      },
       select: {
         id: true,
-        email: true,
-        name: true,
-        role: true
+        mfaVerifiedAt: true,
+        impersonator: {
+          select: {
+            id: true,
+            email: true,
+            name: true
+          }
+        },
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            role: true,
+            emailVerifiedAt: true
+          }
+        }
       }
     });
 
-    if (!user) {
+    // The token's impersonation marker must agree with the session
+    if (!session || (decoded.imp ?? null) !== (session.impersonator?.id ?? null)) {
       return null;
     }
 
-    return user;
+    return {
+      ...session.user,
+      sessionId: session.id,
+      mfaVerified: session.mfaVerifiedAt !== null,
+      apiKey: null,
+      impersonator: session.impersonator
+    };
   } catch (error) {
     console.error('Auth verification error:', error);
     return null;
   }
 }
 
-export async function requireAuth(request: NextRequest): Promise<NextResponse | AuthUser> {
+async function requireAuthenticated(request: NextRequest): Promise<NextResponse | AuthUser> {
+  if (usesCookieAuth(request) && !hasValidCsrfToken(request)) {
+    return csrfFailedResponse();
+  }
+
   const user = await verifyAuth(request);
   
   if (!user) {
@@ -62,6 +169,59 @@ export async function requireAuth(request: NextRequest): Promise<NextResponse |
   return user;
 }
 
+// API keys only reach endpoints guarded by requirePermission; everything
+// else (the account, orders, reviews) needs a signed-in user
+export async function requireAuth(request: NextRequest): Promise<NextResponse | SessionUser> {
+  const user = await requireAuthenticated(request);
+
+  if (user instanceof NextResponse) {
+    return user;
+  }
+
+  if (user.apiKey || !user.sessionId) {
+    return NextResponse.json(
+      { error: 'API keys cannot be used for this endpoint', code: 'API_KEY_NOT_ALLOWED' },
+      { status: 403 }
+    );
+  }
+
+  return user as SessionUser;
+}
+
+// For changes only the account holder may make (password, email, two-factor,
+// deleting the account, placing orders). Impersonation sessions are
+// read-only.
+export async function requireAccountOwner(request: NextRequest): Promise<NextResponse | SessionUser> {
+  const authResult = await requireAuth(request);
+
+  if (authResult instanceof NextResponse) {
+    return authResult;
+  }
+
+  if (authResult.impersonator) {
+    return NextResponse.json(
+      { error: 'This action is not allowed while impersonating', code: 'IMPERSONATION_FORBIDDEN' },
+      { status: 403 }
+    );
+  }
+
+  return authResult;
+}
+
+// Back-office sessions (admins and staff roles) must have completed
+// two-factor authentication; users without it enrolled are sent to
+// /api/auth/2fa/setup
+function requireSecondFactor(user: AuthUser): NextResponse | null {
+  if (!user.mfaVerified) {
+    return NextResponse.json(
+      { error: 'Two-factor authentication required', code: 'MFA_REQUIRED' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
 export async function requireAdmin(request: NextRequest): Promise<NextResponse | AuthUser> {
   const authResult = await requireAuth(request);
   
@@ -77,29 +237,238 @@ export async function requireAdmin(request: NextRequest): Promise<NextResponse |
       { status: 403 }
     );
   }
+
+  return requireSecondFactor(user) ?? user;
+}
+
+// Non-throwing check for routes that serve customers and staff alike, e.g.
+// to widen a customer's own-orders view to all orders
+export async function userHasPermission(user: AuthUser, permission: Permission): Promise<boolean> {
+  return (
+    isBackOfficeRole(user.role) &&
+    user.mfaVerified &&
+    (!user.apiKey || user.apiKey.scopes.includes(permission)) &&
+    (await hasPermission(user.role, permission))
+  );
+}
+
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission
+): Promise<NextResponse | AuthUser> {
+  const authResult = await requireAuthenticated(request);
+  
+  if (authResult instanceof NextResponse) {
+    return authResult;
+  }
   
-  return user;
+  const user = authResult as AuthUser;
+
+  // A key is limited to its scopes, and to what its owner's role still allows
+  if (user.apiKey && !user.apiKey.scopes.includes(permission)) {
+    return NextResponse.json(
+      { error: 'API key is missing the required scope', code: 'INSUFFICIENT_SCOPE', permission },
+      { status: 403 }
+    );
+  }
+  
+  if (!isBackOfficeRole(user.role) || !(await hasPermission(user.role, permission))) {
+    return NextResponse.json(
+      { error: 'Insufficient permissions', permission },
+      { status: 403 }
+    );
+  }
+
+  return requireSecondFactor(user) ?? user;
 }
 
-export function generateToken(user: { id: string; email: string; role: string }): string {
+// Like requireAccountOwner, but also rejects users who haven't verified their email
+export async function requireVerifiedUser(request: NextRequest): Promise<NextResponse | SessionUser> {
+  const authResult = await requireAccountOwner(request);
+  
+  if (authResult instanceof NextResponse) {
+    return authResult;
+  }
+  
+  if (!authResult.emailVerifiedAt) {
+    return NextResponse.json(
+      { error: 'Email address must be verified', code: 'EMAIL_NOT_VERIFIED' },
+      { status: 403 }
+    );
+  }
+  
+  return authResult;
+}
+
+// Strips credentials and security bookkeeping from a user row before it is
+// returned to the client
+export function toPublicUser<T extends Record<string, any>>(user: T) {
+  const {
+    password,
+    twoFactorSecret,
+    twoFactorLastUsedStep,
+    failedLoginAttempts,
+    lastFailedLoginAt,
+    lockedUntil,
+    ...publicUser
+  } = user;
+
+  return publicUser;
+}
+
+export function generateToken(
+  user: { id: string; email: string; role: string },
+  sessionId: string,
+  options: { impersonatorId?: string } = {}
+): string {
   return jwt.sign(
     {
       id: user.id,
       email: user.email,
-      role: user.role
+      role: user.role,
+      sid: sessionId,
+      // Marks impersonation tokens so clients can show a banner
+      ...(options.impersonatorId && { imp: options.impersonatorId })
     },
     JWT_SECRET,
-    { expiresIn: '7d' }
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+}
+
+// Signed, single-purpose tokens for links and multi-step flows. The purpose
+// claim keeps one kind of token from being accepted where another is expected.
+export function signPurposeToken(
+  purpose: string,
+  payload: Record<string, unknown>,
+  expiresInSeconds: number
+): string {
+  return jwt.sign({ ...payload, purpose }, JWT_SECRET, { expiresIn: expiresInSeconds });
+}
+
+export function verifyPurposeToken<T = Record<string, any>>(token: string, purpose: string): T | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    return decoded.purpose === purpose ? decoded as T : null;
+  } catch {
+    return null;
+  }
+}
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  params: { logN: number; r: number; p: number; keyLength: number }
+): Promise<Buffer> {
+  const N = 2 ** params.logN;
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      params.keyLength,
+      { N, r: params.r, p: params.p, maxmem: 256 * N * params.r },
+      (error, derivedKey) => (error ? reject(error) : resolve(derivedKey))
+    );
+  });
+}
+
+interface ParsedScryptHash {
+  logN: number;
+  r: number;
+  p: number;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+// Parses a PHC-style string: $scrypt$ln=15,r=8,p=1$<salt b64>$<hash b64>
+function parseScryptHash(hashedPassword: string): ParsedScryptHash | null {
+  const parts = hashedPassword.split('$');
+  if (parts.length !== 5 || parts[0] !== '' || parts[1] !== 'scrypt') {
+    return null;
+  }
+
+  const params = Object.fromEntries(
+    parts[2].split(',').map(pair => pair.split('=') as [string, string])
   );
+  const logN = parseInt(params.ln);
+  const r = parseInt(params.r);
+  const p = parseInt(params.p);
+
+  if (!logN || !r || !p) {
+    return null;
+  }
+
+  return {
+    logN,
+    r,
+    p,
+    salt: Buffer.from(parts[3], 'base64'),
+    hash: Buffer.from(parts[4], 'base64')
+  };
 }
 
-export function hashPassword(password: string): string {
-  // In a real application, you'd use bcrypt or a similar library
-  // For this example, we'll use a simple hash (NOT SECURE FOR PRODUCTION)
+// Pre-scrypt hashes were base64(password + JWT_SECRET)
+function legacyHash(password: string): string {
   return Buffer.from(password + JWT_SECRET).toString('base64');
 }
 
-export function verifyPassword(password: string, hashedPassword: string): boolean {
-  const hashedInput = hashPassword(password);
-  return hashedInput === hashedPassword;
-}
\ No newline at end of file
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Emails are stored and looked up in this form, so an account is found
+// whatever case the address is typed in
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SCRYPT_SALT_LENGTH);
+  const hash = await deriveKey(password, salt, {
+    logN: SCRYPT_LOG_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    keyLength: SCRYPT_KEY_LENGTH
+  });
+
+  return [
+    '',
+    'scrypt',
+    `ln=${SCRYPT_LOG_N},r=${SCRYPT_R},p=${SCRYPT_P}`,
+    salt.toString('base64'),
+    hash.toString('base64')
+  ].join('$');
+}
+
+export async function verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
+  const parsed = parseScryptHash(hashedPassword);
+
+  if (!parsed) {
+    return safeEqual(Buffer.from(legacyHash(password)), Buffer.from(hashedPassword));
+  }
+
+  const hash = await deriveKey(password, parsed.salt, {
+    logN: parsed.logN,
+    r: parsed.r,
+    p: parsed.p,
+    keyLength: parsed.hash.length
+  });
+
+  return safeEqual(hash, parsed.hash);
+}
+
+// True when a stored hash is legacy or was made with weaker parameters
+// than the current ones, so it should be replaced after a successful login.
+export function passwordNeedsRehash(hashedPassword: string): boolean {
+  const parsed = parseScryptHash(hashedPassword);
+
+  if (!parsed) {
+    return true;
+  }
+
+  return (
+    parsed.logN < SCRYPT_LOG_N ||
+    parsed.r !== SCRYPT_R ||
+    parsed.p !== SCRYPT_P ||
+    parsed.hash.length !== SCRYPT_KEY_LENGTH
+  );
+}
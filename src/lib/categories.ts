@@ -0,0 +1,122 @@
+import { db } from '@/lib/db';
+
+// Categories nest through parentId, e.g. Frozen Meals > Indian > Curries.
+// The catalog has few categories, so the helpers below work on the whole
+// table loaded at once rather than walking the tree query by query.
+export const MAX_CATEGORY_DEPTH = 5;
+
+export interface CategoryNode {
+  id: string;
+  name: string;
+  slug: string;
+  parentId: string | null;
+  position: number;
+  isActive: boolean;
+}
+
+export interface CategoryTreeNode<T extends CategoryNode = CategoryNode> {
+  category: T;
+  children: CategoryTreeNode<T>[];
+}
+
+export interface BreadcrumbItem {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export function loadCategories(): Promise<CategoryNode[]> {
+  return db.category.findMany({
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      parentId: true,
+      position: true,
+      isActive: true
+    }
+  });
+}
+
+function bySiblingOrder(a: CategoryNode, b: CategoryNode) {
+  return a.position - b.position || a.name.localeCompare(b.name);
+}
+
+// Nests the categories under their parents, siblings ordered by position
+// then name. Categories whose parent is missing from the list (e.g. filtered
+// out as inactive) are dropped along with their subtree.
+export function buildCategoryTree<T extends CategoryNode>(categories: T[]): CategoryTreeNode<T>[] {
+  const childrenByParent = new Map<string | null, T[]>();
+
+  for (const category of categories) {
+    const siblings = childrenByParent.get(category.parentId) ?? [];
+    siblings.push(category);
+    childrenByParent.set(category.parentId, siblings);
+  }
+
+  const build = (parentId: string | null): CategoryTreeNode<T>[] =>
+    (childrenByParent.get(parentId) ?? [])
+      .sort(bySiblingOrder)
+      .map(category => ({ category, children: build(category.id) }));
+
+  return build(null);
+}
+
+// The category and everything below it
+export function getDescendantIds(categories: CategoryNode[], rootId: string): string[] {
+  const ids = [rootId];
+
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i] && !ids.includes(category.id)) {
+        ids.push(category.id);
+      }
+    }
+  }
+
+  return ids;
+}
+
+// Root-first path down to (and including) the category
+export function getCategoryPath(categories: CategoryNode[], categoryId: string): BreadcrumbItem[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const path: BreadcrumbItem[] = [];
+  let current = byId.get(categoryId);
+
+  while (current && path.length <= MAX_CATEGORY_DEPTH) {
+    path.unshift({ id: current.id, name: current.name, slug: current.slug });
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+function subtreeHeight(categories: CategoryNode[], categoryId: string): number {
+  const children = categories.filter(category => category.parentId === categoryId);
+  return 1 + Math.max(0, ...children.map(child => subtreeHeight(categories, child.id)));
+}
+
+// Checks that `categoryId` (null for a new category) can sit under
+// `parentId`: the parent must exist, must not be the category itself or one
+// of its descendants, and the result must not exceed MAX_CATEGORY_DEPTH.
+export function validateCategoryParent(
+  categories: CategoryNode[],
+  categoryId: string | null,
+  parentId: string
+): string | null {
+  if (!categories.some(category => category.id === parentId)) {
+    return 'Parent category not found';
+  }
+
+  if (categoryId && getDescendantIds(categories, categoryId).includes(parentId)) {
+    return 'A category cannot be moved under itself or one of its subcategories';
+  }
+
+  const height = categoryId ? subtreeHeight(categories, categoryId) : 1;
+
+  if (getCategoryPath(categories, parentId).length + height > MAX_CATEGORY_DEPTH) {
+    return `Categories can be nested at most ${MAX_CATEGORY_DEPTH} levels deep`;
+  }
+
+  return null;
+}
@@ -0,0 +1,103 @@
+// Minimal RFC 4180 CSV: comma separated, fields quoted with " when they
+// contain a comma, quote or line break, quotes doubled inside quotes.
+
+// Byte order mark, so spreadsheet apps open the export as UTF-8
+const BOM = '\uFEFF';
+
+// Spreadsheets run cells starting with these as formulas, so exported text
+// is prefixed with an apostrophe (which they hide) and the prefix is removed
+// again on import
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return BOM + rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function unescapeCell(text: string): string {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text.slice(1)) ? text.slice(1) : text;
+}
+
+// Rows of cells, with blank lines dropped. Returns an error message for
+// malformed quoting.
+export function parseCsv(text: string): string[][] | { error: string } {
+  const input = text.startsWith(BOM) ? text.slice(BOM.length) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const endCell = () => {
+    row.push(unescapeCell(cell));
+    cell = '';
+  };
+
+  const endRow = () => {
+    endCell();
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    return { error: `Unterminated quoted field starting on line ${quoteLine}` };
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
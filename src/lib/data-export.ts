@@ -0,0 +1,149 @@
+import { db } from '@/lib/db';
+import { createZip } from '@/lib/zip';
+
+export type DataExportFormat = 'json' | 'zip';
+
+// Everything held about a user, for data subject access requests. Secrets
+// (password hash, two-factor secret, token hashes) are left out.
+export async function buildUserDataExport(userId: string) {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      phone: true,
+      address: true,
+      avatar: true,
+      role: true,
+      emailVerifiedAt: true,
+      twoFactorEnabledAt: true,
+      createdAt: true,
+      updatedAt: true,
+      orders: {
+        include: {
+          items: {
+            include: {
+              product: {
+                select: {
+                  id: true,
+                  name: true,
+                  sku: true
+                }
+              }
+            }
+          },
+          offer: {
+            select: {
+              code: true,
+              title: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      },
+      reviews: {
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      },
+      wishlistItems: {
+        include: {
+          product: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        },
+        orderBy: { createdAt: 'asc' }
+      },
+      addresses: {
+        orderBy: { createdAt: 'asc' }
+      },
+      oauthAccounts: {
+        select: {
+          provider: true,
+          email: true,
+          createdAt: true
+        },
+        orderBy: { createdAt: 'asc' }
+      },
+      sessions: {
+        select: {
+          id: true,
+          userAgent: true,
+          ipAddress: true,
+          createdAt: true,
+          lastUsedAt: true,
+          expiresAt: true,
+          revokedAt: true
+        },
+        orderBy: { createdAt: 'asc' }
+      }
+    }
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const {
+    orders,
+    reviews,
+    wishlistItems,
+    addresses,
+    oauthAccounts,
+    sessions,
+    ...profile
+  } = user;
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile,
+    addresses,
+    linkedAccounts: oauthAccounts,
+    orders,
+    reviews,
+    wishlist: wishlistItems,
+    sessions
+  };
+}
+
+export function userDataExportFilename(userId: string, format: DataExportFormat): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `snazo-data-export-${userId}-${date}.${format}`;
+}
+
+// One JSON file per section inside the ZIP
+export function userDataExportToZip(data: Record<string, any>): Buffer {
+  return createZip(
+    Object.entries(data).map(([section, content]) => ({
+      name: `${section}.json`,
+      content: JSON.stringify(content, null, 2)
+    }))
+  );
+}
+
+export function userDataExportResponseBody(
+  data: Record<string, any>,
+  format: DataExportFormat
+): { body: BodyInit; contentType: string } {
+  if (format === 'zip') {
+    return {
+      body: new Uint8Array(userDataExportToZip(data)),
+      contentType: 'application/zip'
+    };
+  }
+
+  return {
+    body: JSON.stringify(data, null, 2),
+    contentType: 'application/json'
+  };
+}
@@ -0,0 +1,227 @@
+import { z } from 'zod';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import sharp from 'sharp';
+import { UPLOADS_DIR, resolveUploadPath, uploadUrl } from '@/lib/uploads';
+
+// Uploaded images are decoded and re-encoded rather than stored as sent:
+// the decode proves the file is an image whatever its MIME type claims,
+// re-encoding drops EXIF (GPS position, camera serial...) after applying its
+// orientation, and the same pass produces responsive renditions and a blur
+// placeholder. Each upload's manifest is written next to it as
+// <name>.json so it can be looked up again from the image URL.
+
+// Rendition widths in pixels; widths above the original are skipped
+export const RENDITION_WIDTHS = [320, 640, 1024, 1600] as const;
+export const RENDITION_FORMATS = ['webp', 'avif'] as const;
+
+// Formats accepted as originals, by what the decoder finds in the file
+const SOURCE_FORMATS = ['jpeg', 'png', 'webp'] as const;
+
+// Refuses decompression bombs: a small file that decodes to a huge bitmap
+const MAX_INPUT_PIXELS = 40_000_000;
+
+const PLACEHOLDER_WIDTH = 16;
+
+const imageFileSchema = z.object({
+  url: z.string().min(1),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  format: z.string(),
+  size: z.number().int().min(0),
+});
+
+export const imageManifestSchema = z.object({
+  original: imageFileSchema,
+  // Smallest first, WebP and AVIF for each width
+  variants: z.array(imageFileSchema.extend({ format: z.enum(RENDITION_FORMATS) })),
+  // Tiny WebP as a data URL, for next/image `blurDataURL` or a CSS background
+  blurDataUrl: z.string().startsWith('data:image/'),
+});
+
+export type ImageManifest = z.infer<typeof imageManifestSchema>;
+
+type SourceFormat = typeof SOURCE_FORMATS[number];
+
+const EXTENSIONS: Record<SourceFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp'
+};
+
+function isSourceFormat(format: string | undefined): format is SourceFormat {
+  return SOURCE_FORMATS.includes(format as SourceFormat);
+}
+
+function encode(image: sharp.Sharp, format: SourceFormat | typeof RENDITION_FORMATS[number]) {
+  switch (format) {
+    case 'jpeg':
+      return image.jpeg({ quality: 85, mozjpeg: true });
+    case 'png':
+      return image.png({ compressionLevel: 9 });
+    case 'webp':
+      return image.webp({ quality: 80 });
+    case 'avif':
+      return image.avif({ quality: 55 });
+  }
+}
+
+// "IMG 0042.JPG" -> "IMG0042", as upload filenames have always been cleaned
+function toBaseName(originalName: string): string {
+  const stem = originalName.replace(/\.[^.]*$/, '').replace(/[^a-zA-Z0-9-]/g, '');
+  return `${Date.now()}-${stem || 'image'}`;
+}
+
+function manifestPath(imagePath: string): string {
+  return imagePath.replace(/\.[^.]+$/, '.json');
+}
+
+// Decodes, cleans and resizes an upload and writes the results to the
+// uploads directory. Nothing is written unless the whole image decodes.
+// Returns the manifest, or an error message for files that aren't images.
+export async function processUploadedImage(
+  buffer: Buffer,
+  originalName: string
+): Promise<ImageManifest | { error: string }> {
+  const source = sharp(buffer, { failOn: 'error', limitInputPixels: MAX_INPUT_PIXELS });
+
+  let format: string | undefined;
+
+  try {
+    ({ format } = await source.metadata());
+  } catch {
+    return { error: 'File is not a valid image' };
+  }
+
+  if (!isSourceFormat(format)) {
+    return { error: 'Invalid file type. Only JPEG, PNG, and WebP are allowed.' };
+  }
+
+  // rotate() with no angle applies the EXIF orientation; output never
+  // carries metadata unless asked to
+  const oriented = source.rotate();
+
+  let original: { data: Buffer; info: sharp.OutputInfo };
+
+  try {
+    original = await encode(oriented.clone(), format).toBuffer({ resolveWithObject: true });
+  } catch {
+    return { error: 'File is not a valid image' };
+  }
+
+  const { width, height } = original.info;
+  const baseName = toBaseName(originalName);
+  const files: { filename: string; data: Buffer }[] = [];
+
+  const originalFilename = `${baseName}.${EXTENSIONS[format]}`;
+  files.push({ filename: originalFilename, data: original.data });
+
+  // An image narrower than the smallest width still gets one rendition
+  const widths: number[] = RENDITION_WIDTHS.filter(w => w < width);
+  if (widths.length < RENDITION_WIDTHS.length) {
+    widths.push(width);
+  }
+
+  const variants: ImageManifest['variants'] = [];
+  let placeholder: Buffer;
+
+  // Some files only fail part way through decoding, at a size or format
+  // the first pass didn't reach
+  try {
+    for (const targetWidth of widths) {
+      for (const variantFormat of RENDITION_FORMATS) {
+        const { data, info } = await encode(
+          oriented.clone().resize({ width: targetWidth, withoutEnlargement: true }),
+          variantFormat
+        ).toBuffer({ resolveWithObject: true });
+
+        const filename = `${baseName}-${targetWidth}w.${variantFormat}`;
+        files.push({ filename, data });
+        variants.push({
+          url: uploadUrl(filename),
+          width: info.width,
+          height: info.height,
+          format: variantFormat,
+          size: info.size
+        });
+      }
+    }
+
+    placeholder = await oriented.clone()
+      .resize({ width: PLACEHOLDER_WIDTH })
+      .webp({ quality: 40 })
+      .toBuffer();
+  } catch {
+    return { error: 'File is not a valid image' };
+  }
+
+  const manifest: ImageManifest = {
+    original: {
+      url: uploadUrl(originalFilename),
+      width,
+      height,
+      format,
+      size: original.info.size
+    },
+    variants,
+    blurDataUrl: `data:image/webp;base64,${placeholder.toString('base64')}`
+  };
+
+  await mkdir(UPLOADS_DIR, { recursive: true });
+
+  for (const file of files) {
+    await writeFile(join(UPLOADS_DIR, file.filename), file.data);
+  }
+
+  await writeFile(manifestPath(join(UPLOADS_DIR, originalFilename)), JSON.stringify(manifest));
+
+  return manifest;
+}
+
+// The manifest of an upload by its URL. Null for files uploaded before the
+// pipeline existed, renditions, and anything that isn't an upload.
+export async function readImageManifest(url: string): Promise<ImageManifest | null> {
+  const path = resolveUploadPath(url);
+
+  if (!path || path.endsWith('.json')) {
+    return null;
+  }
+
+  try {
+    const parsed = imageManifestSchema.safeParse(JSON.parse(await readFile(manifestPath(path), 'utf8')));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseImageManifest(value: string | null): ImageManifest | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const parsed = imageManifestSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Create/update data for an `imageManifest` input; undefined leaves the
+// column alone and null clears it
+export function toImageManifestData(manifest: ImageManifest | null | undefined) {
+  if (manifest === undefined) {
+    return {};
+  }
+
+  return { imageManifest: manifest ? JSON.stringify(manifest) : null };
+}
+
+// Rows with their stored manifest decoded for API responses
+export function withImageManifest<T extends { imageManifest: string | null }>(row: T) {
+  return {
+    ...row,
+    imageManifest: parseImageManifest(row.imageManifest)
+  };
+}
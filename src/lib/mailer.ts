@@ -0,0 +1,66 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Logs messages instead of delivering them (default for local development)
+export function createConsoleMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    }
+  };
+}
+
+// Writes each message as a JSON file so tests and developers can read it back
+export function createFileMailer(directory: string): Mailer {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true });
+
+      const filename = `${Date.now()}-${randomBytes(4).toString('hex')}.json`;
+      await writeFile(
+        join(directory, filename),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    }
+  };
+}
+
+let mailer: Mailer | null = null;
+
+// MAIL_TRANSPORT selects the sink: "console" (default) or "file", which
+// writes to MAIL_OUTBOX_DIR
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = process.env.MAIL_TRANSPORT === 'file'
+      ? createFileMailer(process.env.MAIL_OUTBOX_DIR || join(process.cwd(), 'mail-outbox'))
+      : createConsoleMailer();
+  }
+
+  return mailer;
+}
+
+// Lets other transports (SMTP, a provider API, a test double) be plugged in
+export function setMailer(customMailer: Mailer) {
+  mailer = customMailer;
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailer().send(message);
+}
+
+export function appUrl(path: string): string {
+  const baseUrl = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${baseUrl}${path}`;
+}
@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { createHash } from 'crypto';
+import { appUrl } from '@/lib/mailer';
+
+// A tiny OpenID Connect provider served by the app itself under
+// /api/dev/oidc, so the whole OIDC login can be exercised offline. Enabled
+// with OIDC_MOCK=true outside production. Tokens are signed with HS256 using
+// the client secret, so there are no keys to manage.
+
+export const MOCK_OIDC_PROVIDER_ID = 'mock-oidc';
+export const MOCK_OIDC_CLIENT_ID = 'snazo-mock-client';
+export const MOCK_OIDC_CLIENT_SECRET = process.env.OIDC_MOCK_CLIENT_SECRET || 'snazo-mock-secret';
+
+const CODE_TTL_SECONDS = 60;
+const TOKEN_TTL_SECONDS = 5 * 60;
+
+export interface MockOidcIdentity {
+  email: string;
+  name: string;
+  email_verified: boolean;
+}
+
+interface MockAuthorizationCode extends MockOidcIdentity {
+  typ: 'code';
+  sub: string;
+  redirect_uri: string;
+  nonce?: string;
+  code_challenge?: string;
+}
+
+export function isMockOidcEnabled(): boolean {
+  return process.env.OIDC_MOCK === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+export function mockOidcIssuer(): string {
+  return appUrl('/api/dev/oidc');
+}
+
+export function mockOidcNotFound(): NextResponse {
+  return NextResponse.json({ error: 'Not found' }, { status: 404 });
+}
+
+// Stable subject per email, like a real provider's account id
+function subjectFor(email: string): string {
+  return createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24);
+}
+
+export function isAllowedRedirectUri(redirectUri: string): boolean {
+  return redirectUri.startsWith(appUrl('/api/auth/callback/'));
+}
+
+export function createMockAuthorizationCode(
+  identity: MockOidcIdentity,
+  request: { redirectUri: string; nonce?: string; codeChallenge?: string }
+): string {
+  const payload: MockAuthorizationCode = {
+    typ: 'code',
+    sub: subjectFor(identity.email),
+    ...identity,
+    redirect_uri: request.redirectUri,
+    nonce: request.nonce,
+    code_challenge: request.codeChallenge
+  };
+
+  return jwt.sign(payload, MOCK_OIDC_CLIENT_SECRET, {
+    algorithm: 'HS256',
+    expiresIn: CODE_TTL_SECONDS
+  });
+}
+
+export function readMockAuthorizationCode(code: string): MockAuthorizationCode | null {
+  try {
+    const decoded = jwt.verify(code, MOCK_OIDC_CLIENT_SECRET, { algorithms: ['HS256'] }) as any;
+    return decoded.typ === 'code' ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+// PKCE S256: base64url(sha256(verifier)) must equal the challenge
+export function verifyCodeChallenge(verifier: string, challenge: string): boolean {
+  return createHash('sha256').update(verifier).digest('base64url') === challenge;
+}
+
+export function issueMockTokens(code: MockAuthorizationCode) {
+  const claims = {
+    sub: code.sub,
+    email: code.email,
+    email_verified: code.email_verified,
+    name: code.name
+  };
+
+  const idToken = jwt.sign(
+    { ...claims, ...(code.nonce && { nonce: code.nonce }) },
+    MOCK_OIDC_CLIENT_SECRET,
+    {
+      algorithm: 'HS256',
+      expiresIn: TOKEN_TTL_SECONDS,
+      issuer: mockOidcIssuer(),
+      audience: MOCK_OIDC_CLIENT_ID
+    }
+  );
+
+  const accessToken = jwt.sign({ ...claims, typ: 'access' }, MOCK_OIDC_CLIENT_SECRET, {
+    algorithm: 'HS256',
+    expiresIn: TOKEN_TTL_SECONDS
+  });
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL_SECONDS,
+    id_token: idToken,
+    scope: 'openid email profile'
+  };
+}
+
+export function readMockAccessToken(token: string) {
+  try {
+    const decoded = jwt.verify(token, MOCK_OIDC_CLIENT_SECRET, { algorithms: ['HS256'] }) as any;
+
+    if (decoded.typ !== 'access') {
+      return null;
+    }
+
+    return {
+      sub: decoded.sub as string,
+      email: decoded.email as string,
+      email_verified: decoded.email_verified as boolean,
+      name: decoded.name as string
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Accepts client_secret_basic and client_secret_post
+export function isMockClientAuthenticated(authorization: string | null, form: URLSearchParams): boolean {
+  let clientId = form.get('client_id');
+  let clientSecret = form.get('client_secret');
+
+  if (authorization?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    clientId = decodeURIComponent(decoded.slice(0, separator));
+    clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+  }
+
+  return clientId === MOCK_OIDC_CLIENT_ID && clientSecret === MOCK_OIDC_CLIENT_SECRET;
+}
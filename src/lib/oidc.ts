@@ -0,0 +1,288 @@
+import type { NextAuthOptions } from 'next-auth';
+import type { OAuthConfig } from 'next-auth/providers/oauth';
+import GoogleProvider from 'next-auth/providers/google';
+import { randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { normalizeEmail } from '@/lib/auth';
+import { hashToken } from '@/lib/sessions';
+import {
+  isMockOidcEnabled,
+  MOCK_OIDC_CLIENT_ID,
+  MOCK_OIDC_CLIENT_SECRET,
+  MOCK_OIDC_PROVIDER_ID,
+  mockOidcIssuer
+} from '@/lib/mock-oidc';
+
+// next-auth only runs the OIDC handshake. Its own session lives just long
+// enough to reach /api/auth/oidc/complete, which hands over to the app's
+// sessions through a one-time code.
+const HANDSHAKE_MAX_AGE_SECONDS = 10 * 60;
+const LOGIN_CODE_TTL_SECONDS = 2 * 60;
+
+export const OIDC_COMPLETE_PATH = '/api/auth/oidc/complete';
+
+interface OidcProfile {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  picture?: string;
+}
+
+export interface OidcIdentity {
+  provider: string;
+  providerAccountId: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  image: string | null;
+}
+
+export type OidcLinkResult =
+  | { status: 'ok'; userId: string }
+  | { status: 'email_unverified' }
+  | { status: 'account_disabled' };
+
+function genericOidcProvider(options: {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  client?: OAuthConfig<OidcProfile>['client'];
+}): OAuthConfig<OidcProfile> {
+  return {
+    id: options.id,
+    name: options.name,
+    type: 'oauth',
+    wellKnown: `${options.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+    authorization: { params: { scope: 'openid email profile' } },
+    idToken: true,
+    checks: ['pkce', 'state'],
+    clientId: options.clientId,
+    clientSecret: options.clientSecret,
+    client: options.client,
+    profile(profile) {
+      return {
+        id: profile.sub,
+        email: profile.email,
+        name: profile.name,
+        image: profile.picture
+      };
+    }
+  };
+}
+
+// Providers are configured from the environment:
+// - Google: GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET
+// - Any OIDC issuer: OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET and
+//   optionally OIDC_PROVIDER_ID / OIDC_PROVIDER_NAME
+// - The local mock provider: OIDC_MOCK=true (not in production)
+export function getOidcProviders(): OAuthConfig<any>[] {
+  const providers: OAuthConfig<any>[] = [];
+
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    providers.push(GoogleProvider({
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET
+    }));
+  }
+
+  if (process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID && process.env.OIDC_CLIENT_SECRET) {
+    providers.push(genericOidcProvider({
+      id: process.env.OIDC_PROVIDER_ID || 'oidc',
+      name: process.env.OIDC_PROVIDER_NAME || 'Single sign-on',
+      issuer: process.env.OIDC_ISSUER,
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET
+    }));
+  }
+
+  if (isMockOidcEnabled()) {
+    providers.push(genericOidcProvider({
+      id: MOCK_OIDC_PROVIDER_ID,
+      name: 'Mock OIDC',
+      issuer: mockOidcIssuer(),
+      clientId: MOCK_OIDC_CLIENT_ID,
+      clientSecret: MOCK_OIDC_CLIENT_SECRET,
+      client: { id_token_signed_response_alg: 'HS256' }
+    }));
+  }
+
+  return providers;
+}
+
+export function toOidcIdentity(provider: string, profile: OidcProfile): OidcIdentity {
+  return {
+    provider,
+    providerAccountId: profile.sub,
+    email: profile.email ? normalizeEmail(profile.email) : null,
+    // Some providers send the claim as a string
+    emailVerified: profile.email_verified === true || profile.email_verified === 'true',
+    name: profile.name ?? null,
+    image: profile.picture ?? null
+  };
+}
+
+// Finds the user behind an external identity, linking it to an existing
+// account with the same email or creating a new one. Linking by email only
+// happens when the provider has verified the address, otherwise anyone could
+// claim an account by registering its email elsewhere.
+export async function linkOidcIdentity(identity: OidcIdentity): Promise<OidcLinkResult> {
+  const existingAccount = await db.oAuthAccount.findUnique({
+    where: {
+      provider_providerAccountId: {
+        provider: identity.provider,
+        providerAccountId: identity.providerAccountId
+      }
+    },
+    include: {
+      user: {
+        select: { id: true, deletedAt: true }
+      }
+    }
+  });
+
+  if (existingAccount) {
+    if (existingAccount.user.deletedAt) {
+      return { status: 'account_disabled' };
+    }
+
+    return { status: 'ok', userId: existingAccount.user.id };
+  }
+
+  if (!identity.email || !identity.emailVerified) {
+    return { status: 'email_unverified' };
+  }
+
+  const existingUser = await db.user.findUnique({
+    where: { email: identity.email }
+  });
+
+  if (existingUser?.deletedAt) {
+    return { status: 'account_disabled' };
+  }
+
+  if (existingUser) {
+    await db.$transaction([
+      db.oAuthAccount.create({
+        data: {
+          userId: existingUser.id,
+          provider: identity.provider,
+          providerAccountId: identity.providerAccountId,
+          email: identity.email
+        }
+      }),
+      // The provider just proved ownership of the address
+      ...(existingUser.emailVerifiedAt ? [] : [
+        db.user.update({
+          where: { id: existingUser.id },
+          data: { emailVerifiedAt: new Date() }
+        })
+      ])
+    ]);
+
+    return { status: 'ok', userId: existingUser.id };
+  }
+
+  const user = await db.user.create({
+    data: {
+      email: identity.email,
+      name: identity.name,
+      avatar: identity.image,
+      emailVerifiedAt: new Date(),
+      oauthAccounts: {
+        create: {
+          provider: identity.provider,
+          providerAccountId: identity.providerAccountId,
+          email: identity.email
+        }
+      }
+    }
+  });
+
+  return { status: 'ok', userId: user.id };
+}
+
+export async function findOidcAccountUserId(provider: string, providerAccountId: string) {
+  const account = await db.oAuthAccount.findUnique({
+    where: {
+      provider_providerAccountId: { provider, providerAccountId }
+    },
+    select: { userId: true }
+  });
+
+  return account?.userId ?? null;
+}
+
+export async function createOidcLoginCode(userId: string): Promise<string> {
+  const code = randomBytes(32).toString('base64url');
+
+  await db.oAuthLoginCode.create({
+    data: {
+      userId,
+      codeHash: hashToken(code),
+      expiresAt: new Date(Date.now() + LOGIN_CODE_TTL_SECONDS * 1000)
+    }
+  });
+
+  return code;
+}
+
+// Marks the code used and returns its user; each code works once
+export async function consumeOidcLoginCode(code: string): Promise<string | null> {
+  const loginCode = await db.oAuthLoginCode.findUnique({
+    where: { codeHash: hashToken(code) }
+  });
+
+  if (!loginCode || loginCode.usedAt || loginCode.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const result = await db.oAuthLoginCode.updateMany({
+    where: { id: loginCode.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  return result.count > 0 ? loginCode.userId : null;
+}
+
+export function getNextAuthSecret(): string {
+  return process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+}
+
+export const authOptions: NextAuthOptions = {
+  providers: getOidcProviders(),
+  secret: getNextAuthSecret(),
+  session: {
+    strategy: 'jwt',
+    maxAge: HANDSHAKE_MAX_AGE_SECONDS
+  },
+  callbacks: {
+    async signIn({ account, profile }) {
+      if (!account || !profile) {
+        return false;
+      }
+
+      const result = await linkOidcIdentity(
+        toOidcIdentity(account.provider, profile as OidcProfile)
+      );
+
+      if (result.status !== 'ok') {
+        // Sends the browser to the error page with ?error=<status>
+        return `/api/auth/error?error=${result.status}`;
+      }
+
+      return true;
+    },
+
+    async jwt({ token, account }) {
+      // Only present on the sign-in request itself
+      if (account) {
+        token.appUserId = await findOidcAccountUserId(account.provider, account.providerAccountId);
+      }
+
+      return token;
+    }
+  }
+};
@@ -0,0 +1,255 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+// Shared pagination for list routes. Two modes:
+// - page (default): `page` and `limit`, answered with page/limit/total/pages
+//   as before
+// - cursor: sending `cursor` (empty for the first page) switches to keyset
+//   pagination, answered with an opaque `nextCursor`. Rows inserted while
+//   paging don't shift later pages, and deep pages cost the same as the first.
+
+export const DEFAULT_PAGE_LIMIT = 10;
+// Larger limits are clamped rather than rejected, so existing clients keep working
+export const MAX_PAGE_LIMIT = 100;
+
+export interface SortSpec {
+  field: string;
+  direction: 'asc' | 'desc';
+  // Type of the field's values, which cursor values are checked against
+  type: 'date' | 'number' | 'string';
+}
+
+export const NEWEST_FIRST: SortSpec = { field: 'createdAt', direction: 'desc', type: 'date' };
+
+interface CursorPosition {
+  // Keyset position: sort value and id of the last row returned
+  value?: string | number | Date;
+  id?: string;
+  // Position in orders computed in code (e.g. search relevance)
+  offset?: number;
+}
+
+export type PaginationParams =
+  | { mode: 'page'; page: number; limit: number; skip: number }
+  | { mode: 'cursor'; limit: number; after: CursorPosition | null };
+
+const paginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).optional(),
+});
+
+// `k` ties a cursor to the order it was issued for; `d` marks `v` as a date
+const cursorSchema = z.object({
+  k: z.string(),
+  v: z.union([z.string(), z.number()]).optional(),
+  d: z.literal(1).optional(),
+  id: z.string().optional(),
+  o: z.number().int().min(0).optional(),
+});
+
+function toSortKey(sort: SortSpec | string): string {
+  return typeof sort === 'string' ? sort : `${sort.field}:${sort.direction}`;
+}
+
+export function encodeCursor(sort: SortSpec | string, position: CursorPosition): string {
+  const { value, id, offset } = position;
+
+  const payload = {
+    k: toSortKey(sort),
+    ...(value instanceof Date ? { v: value.toISOString(), d: 1 } : value !== undefined && { v: value }),
+    ...(id !== undefined && { id }),
+    ...(offset !== undefined && { o: offset })
+  };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+// The cursor's sort value as the field's type, or null when it doesn't
+// match: Prisma fails on a mistyped value instead of matching nothing
+function toSortValue(
+  value: string | number | undefined,
+  isDate: boolean,
+  type: SortSpec['type']
+): string | number | Date | null {
+  switch (type) {
+    case 'date': {
+      const date = isDate && typeof value === 'string' ? new Date(value) : null;
+      return date && !Number.isNaN(date.getTime()) ? date : null;
+    }
+    case 'number':
+      return !isDate && typeof value === 'number' ? value : null;
+    case 'string':
+      return !isDate && typeof value === 'string' ? value : null;
+  }
+}
+
+function decodeCursor(cursor: string, sort: SortSpec | string): CursorPosition | null {
+  try {
+    const parsed = cursorSchema.safeParse(
+      JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    );
+
+    if (!parsed.success || parsed.data.k !== toSortKey(sort)) {
+      return null;
+    }
+
+    const { v, d, id, o } = parsed.data;
+
+    // Orders computed in code page by offset alone
+    if (typeof sort === 'string') {
+      return o !== undefined ? { offset: o } : null;
+    }
+
+    const value = toSortValue(v, d === 1, sort.type);
+
+    if (id === undefined || value === null) {
+      return null;
+    }
+
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+// Reads page/limit/cursor from the query. `sort` must match the order the
+// route will use, so a cursor from one order can't be replayed on another.
+export function parsePagination(
+  searchParams: URLSearchParams,
+  options: { sort?: SortSpec | string; defaultLimit?: number } = {}
+): PaginationParams | NextResponse {
+  const parsed = paginationQuerySchema.safeParse({
+    page: searchParams.get('page') ?? undefined,
+    limit: searchParams.get('limit') ?? undefined
+  });
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid pagination parameters', details: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const limit = Math.min(MAX_PAGE_LIMIT, parsed.data.limit ?? options.defaultLimit ?? DEFAULT_PAGE_LIMIT);
+
+  if (searchParams.has('cursor')) {
+    const cursor = searchParams.get('cursor');
+
+    if (!cursor) {
+      return { mode: 'cursor', limit, after: null };
+    }
+
+    const after = decodeCursor(cursor, options.sort ?? NEWEST_FIRST);
+
+    if (!after) {
+      return NextResponse.json(
+        { error: 'Invalid cursor', code: 'INVALID_CURSOR' },
+        { status: 400 }
+      );
+    }
+
+    return { mode: 'cursor', limit, after };
+  }
+
+  const page = parsed.data.page;
+
+  return { mode: 'page', page, limit, skip: (page - 1) * limit };
+}
+
+// Ties are broken by id so every row has a fixed position
+export function sortOrderBy(sort: SortSpec = NEWEST_FIRST): any[] {
+  return [
+    { [sort.field]: sort.direction },
+    { id: sort.direction }
+  ];
+}
+
+// Narrows `where` to the rows after the cursor
+export function withCursor(where: any, params: PaginationParams, sort: SortSpec = NEWEST_FIRST): any {
+  if (params.mode !== 'cursor' || !params.after || params.after.id === undefined) {
+    return where;
+  }
+
+  const op = sort.direction === 'desc' ? 'lt' : 'gt';
+  const { value, id } = params.after;
+
+  return {
+    AND: [
+      where,
+      {
+        OR: [
+          { [sort.field]: { [op]: value } },
+          { [sort.field]: value, id: { [op]: id } }
+        ]
+      }
+    ]
+  };
+}
+
+// skip/take for the query; cursor mode reads one extra row to know if
+// there is a next page
+export function pageArgs(params: PaginationParams): { skip?: number; take: number } {
+  return params.mode === 'page'
+    ? { skip: params.skip, take: params.limit }
+    : { take: params.limit + 1 };
+}
+
+function pageMeta(params: { page: number; limit: number }, total: number) {
+  return {
+    page: params.page,
+    limit: params.limit,
+    total,
+    pages: Math.ceil(total / params.limit)
+  };
+}
+
+// Trims the extra row and builds the `pagination` object of the response
+export function paginateResults<T extends { id: string }>(
+  params: PaginationParams,
+  rows: T[],
+  total: number,
+  sort: SortSpec = NEWEST_FIRST
+) {
+  if (params.mode === 'page') {
+    return { items: rows, pagination: pageMeta(params, total) };
+  }
+
+  const items = rows.slice(0, params.limit);
+  const hasMore = rows.length > params.limit;
+  const last = items[items.length - 1] as Record<string, any> | undefined;
+
+  return {
+    items,
+    pagination: {
+      limit: params.limit,
+      total,
+      hasMore,
+      nextCursor: hasMore && last
+        ? encodeCursor(sort, { value: last[sort.field], id: last.id })
+        : null
+    }
+  };
+}
+
+// For lists ordered in code: picks the page out of the full ordering, with
+// cursors holding an offset
+export function paginateRanked<T>(params: PaginationParams, ranked: T[], sortKey: string) {
+  const offset = params.mode === 'page' ? params.skip : params.after?.offset ?? 0;
+  const items = ranked.slice(offset, offset + params.limit);
+
+  if (params.mode === 'page') {
+    return { items, pagination: pageMeta(params, ranked.length) };
+  }
+
+  const hasMore = offset + params.limit < ranked.length;
+
+  return {
+    items,
+    pagination: {
+      limit: params.limit,
+      total: ranked.length,
+      hasMore,
+      nextCursor: hasMore ? encodeCursor(sortKey, { offset: offset + params.limit }) : null
+    }
+  };
+}
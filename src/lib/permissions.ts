@@ -0,0 +1,97 @@
+import { Role } from '@prisma/client';
+import { db } from '@/lib/db';
+
+export const PERMISSIONS = [
+  'analytics:read',
+  'inventory:read',
+  'inventory:write',
+  'orders:read',
+  'orders:update',
+  'orders:delete',
+  'products:write',
+  'categories:write',
+  'media:upload',
+  'offers:manage',
+  'users:read',
+  'users:write',
+  'users:export',
+  'users:impersonate',
+  'roles:manage',
+  'audit:read',
+  'api-keys:manage',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Roles whose permissions are configurable. ADMIN always has every
+// permission and USER (customers) has none.
+export const STAFF_ROLES = ['WAREHOUSE', 'SUPPORT', 'MARKETING'] as const;
+
+export type StaffRole = typeof STAFF_ROLES[number];
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  WAREHOUSE: ['inventory:read', 'inventory:write', 'orders:read', 'orders:update'],
+  SUPPORT: ['orders:read', 'orders:update', 'users:read'],
+  MARKETING: ['offers:manage', 'analytics:read', 'products:write', 'categories:write', 'media:upload'],
+};
+
+export function isStaffRole(role: Role): role is StaffRole {
+  return (STAFF_ROLES as readonly string[]).includes(role);
+}
+
+// Anyone who can reach the admin API: admins and staff roles
+export function isBackOfficeRole(role: Role): boolean {
+  return role === 'ADMIN' || isStaffRole(role);
+}
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+// Stored assignments override the defaults; a role without a stored row
+// uses DEFAULT_ROLE_PERMISSIONS
+export async function getRolePermissions(role: Role): Promise<Permission[]> {
+  if (role === 'ADMIN') {
+    return [...PERMISSIONS];
+  }
+
+  if (!isStaffRole(role)) {
+    return [];
+  }
+
+  const stored = await db.rolePermissions.findUnique({
+    where: { role }
+  });
+
+  if (!stored) {
+    return DEFAULT_ROLE_PERMISSIONS[role];
+  }
+
+  try {
+    const permissions = JSON.parse(stored.permissions);
+    return Array.isArray(permissions) ? permissions.filter(isPermission) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function hasPermission(role: Role, permission: Permission): Promise<boolean> {
+  if (role === 'ADMIN') {
+    return true;
+  }
+
+  const permissions = await getRolePermissions(role);
+  return permissions.includes(permission);
+}
+
+export async function setRolePermissions(role: StaffRole, permissions: Permission[]) {
+  const unique = Array.from(new Set(permissions));
+
+  await db.rolePermissions.upsert({
+    where: { role },
+    create: { role, permissions: JSON.stringify(unique) },
+    update: { permissions: JSON.stringify(unique) }
+  });
+
+  return unique;
+}
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+
+// Food information for frozen products. Nutrition, allergens and dietary
+// tags are stored as JSON strings on Product, like variant options;
+// allergens and tags are lists of the keys below so they can be filtered
+// with `contains`.
+
+// The 14 major allergens that must be declared on food labels
+export const ALLERGENS = [
+  'celery',
+  'gluten',
+  'crustacean',
+  'egg',
+  'fish',
+  'lupin',
+  'milk',
+  'mollusc',
+  'mustard',
+  'tree_nut',
+  'peanut',
+  'sesame',
+  'soy',
+  'sulphite'
+] as const;
+
+export const DIETARY_TAGS = [
+  'vegan',
+  'vegetarian',
+  'halal',
+  'kosher',
+  'gluten_free',
+  'dairy_free',
+  'organic'
+] as const;
+
+export type Allergen = typeof ALLERGENS[number];
+export type DietaryTag = typeof DIETARY_TAGS[number];
+
+const grams = z.number().min(0).max(100);
+
+// Per 100g, in grams unless stated otherwise. Fibre is optional on labels.
+export const nutritionSchema = z.object({
+  energyKj: z.number().min(0).max(4000).optional(),
+  energyKcal: z.number().min(0).max(1000),
+  fat: grams,
+  saturates: grams,
+  carbohydrate: grams,
+  sugars: grams,
+  fibre: grams.optional(),
+  protein: grams,
+  salt: grams,
+}).refine(n => n.saturates <= n.fat, {
+  message: 'Saturates cannot exceed fat',
+  path: ['saturates']
+}).refine(n => n.sugars <= n.carbohydrate, {
+  message: 'Sugars cannot exceed carbohydrate',
+  path: ['sugars']
+});
+
+export type Nutrition = z.infer<typeof nutritionSchema>;
+
+// Fields shared by the create and update schemas; null clears a value.
+// An empty allergen list declares the product free of all 14.
+export const productAttributeFields = {
+  nutrition: nutritionSchema.nullable().optional(),
+  allergens: z.array(z.enum(ALLERGENS)).nullable().optional(),
+  ingredients: z.string().trim().max(5000).nullable().optional(),
+  // Recommended storage, e.g. -18 for a domestic freezer
+  storageTemperatureC: z.number().int().min(-40).max(25).nullable().optional(),
+  // How long the product keeps once thawed; null when it must not be thawed
+  // before cooking
+  shelfLifeAfterThawHours: z.number().int().min(0).max(720).nullable().optional(),
+  dietaryTags: z.array(z.enum(DIETARY_TAGS)).nullable().optional(),
+};
+
+export interface ProductAttributeInput {
+  nutrition?: Nutrition | null;
+  allergens?: Allergen[] | null;
+  ingredients?: string | null;
+  storageTemperatureC?: number | null;
+  shelfLifeAfterThawHours?: number | null;
+  dietaryTags?: DietaryTag[] | null;
+}
+
+// Tags that a declared allergen rules out
+const CONFLICTING_ALLERGENS: Partial<Record<DietaryTag, Allergen[]>> = {
+  vegan: ['milk', 'egg', 'fish', 'crustacean', 'mollusc'],
+  vegetarian: ['fish', 'crustacean', 'mollusc'],
+  gluten_free: ['gluten'],
+  dairy_free: ['milk'],
+};
+
+// Catches labels that contradict themselves, e.g. a vegan product
+// declaring milk. Returns an error message or null.
+export function findAttributeConflict(attributes: {
+  allergens?: Allergen[] | null;
+  dietaryTags?: DietaryTag[] | null;
+}): string | null {
+  for (const tag of attributes.dietaryTags ?? []) {
+    const conflict = (CONFLICTING_ALLERGENS[tag] ?? [])
+      .find(allergen => attributes.allergens?.includes(allergen));
+
+    if (conflict) {
+      return `Products tagged ${tag} cannot contain ${conflict}`;
+    }
+  }
+
+  return null;
+}
+
+export interface ProductAttributeData {
+  nutrition?: string | null;
+  allergens?: string | null;
+  ingredients?: string | null;
+  storageTemperatureC?: number | null;
+  shelfLifeAfterThawHours?: number | null;
+  dietaryTags?: string | null;
+}
+
+// Converts validated input to Product columns, leaving out absent fields
+export function toProductAttributeData(input: ProductAttributeInput): ProductAttributeData {
+  const data: ProductAttributeData = {};
+
+  if (input.nutrition !== undefined) {
+    data.nutrition = input.nutrition ? JSON.stringify(input.nutrition) : null;
+  }
+
+  if (input.allergens !== undefined) {
+    data.allergens = input.allergens ? JSON.stringify([...new Set(input.allergens)]) : null;
+  }
+
+  if (input.dietaryTags !== undefined) {
+    data.dietaryTags = input.dietaryTags ? JSON.stringify([...new Set(input.dietaryTags)]) : null;
+  }
+
+  if (input.ingredients !== undefined) {
+    data.ingredients = input.ingredients || null;
+  }
+
+  if (input.storageTemperatureC !== undefined) {
+    data.storageTemperatureC = input.storageTemperatureC;
+  }
+
+  if (input.shelfLifeAfterThawHours !== undefined) {
+    data.shelfLifeAfterThawHours = input.shelfLifeAfterThawHours;
+  }
+
+  return data;
+}
+
+// Product create/update data with the attribute fields converted
+export function toProductData<T extends ProductAttributeInput>(input: T) {
+  const {
+    nutrition,
+    allergens,
+    ingredients,
+    storageTemperatureC,
+    shelfLifeAfterThawHours,
+    dietaryTags,
+    ...productData
+  } = input;
+
+  return { ...productData, ...toProductAttributeData(input) };
+}
+
+function parseJsonColumn<T>(value: string | null): T | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+// Products with the JSON attribute columns decoded for API responses
+export function withProductAttributes<T extends {
+  nutrition: string | null;
+  allergens: string | null;
+  dietaryTags: string | null;
+}>(product: T) {
+  return {
+    ...product,
+    nutrition: parseJsonColumn<Nutrition>(product.nutrition),
+    allergens: parseJsonColumn<Allergen[]>(product.allergens),
+    dietaryTags: parseJsonColumn<DietaryTag[]>(product.dietaryTags)
+  };
+}
+
+// Stored lists are JSON arrays of keys, so a quoted key only matches itself
+export function jsonListContains(key: string) {
+  return { contains: JSON.stringify(key) };
+}
@@ -0,0 +1,490 @@
+import { Prisma, Product } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { loadCategories } from '@/lib/categories';
+import { parseCsv, toCsv } from '@/lib/csv';
+import { findAttributeConflict, toProductData, withProductAttributes } from '@/lib/product-attributes';
+import { productSchema } from '@/lib/products';
+import { resolveProductStatus } from '@/lib/product-status';
+
+// Catalog import/export as CSV. Imports upsert by SKU, or by slug for rows
+// without one, and are validated with the same productSchema as
+// POST /api/products before anything is written.
+
+export const PRODUCT_CSV_COLUMNS = [
+  'sku',
+  'slug',
+  'name',
+  'description',
+  'categorySlug',
+  'price',
+  'originalPrice',
+  'stock',
+  'isActive',
+  'status',
+  'publishAt',
+  'unpublishAt',
+  'isFeatured',
+  'image',
+  'allergens',
+  'dietaryTags',
+  'ingredients',
+  'storageTemperatureC',
+  'shelfLifeAfterThawHours',
+  'nutrition'
+] as const;
+
+type ProductCsvColumn = typeof PRODUCT_CSV_COLUMNS[number];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Creating a few thousand products takes longer than Prisma's default 5s
+// for an interactive transaction
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60_000;
+
+const NUMBER_COLUMNS: ProductCsvColumn[] = [
+  'price',
+  'originalPrice',
+  'stock',
+  'storageTemperatureC',
+  'shelfLifeAfterThawHours'
+];
+const BOOLEAN_COLUMNS: ProductCsvColumn[] = ['isActive', 'isFeatured'];
+// Semicolon separated keys; `none` is an empty list, which for allergens
+// declares the product free of all of them
+const LIST_COLUMNS: ProductCsvColumn[] = ['allergens', 'dietaryTags'];
+const EMPTY_LIST = 'none';
+
+// Resolved together from status, publishAt, unpublishAt and isActive
+const SCHEDULE_FIELDS = ['status', 'publishAt', 'unpublishAt', 'isActive'] as const;
+
+function formatList(values: string[] | null): string | null {
+  if (!values) {
+    return null;
+  }
+
+  return values.length > 0 ? values.join(';') : EMPTY_LIST;
+}
+
+function toCsvRow(product: Product & { category: { slug: string } }): unknown[] {
+  const attributes = withProductAttributes(product);
+
+  const values: Record<ProductCsvColumn, unknown> = {
+    sku: product.sku,
+    slug: product.slug,
+    name: product.name,
+    description: product.description,
+    categorySlug: product.category.slug,
+    price: product.price,
+    originalPrice: product.originalPrice,
+    stock: product.stock,
+    isActive: product.isActive,
+    status: product.status,
+    publishAt: product.publishAt?.toISOString(),
+    unpublishAt: product.unpublishAt?.toISOString(),
+    isFeatured: product.isFeatured,
+    image: product.image,
+    allergens: formatList(attributes.allergens),
+    dietaryTags: formatList(attributes.dietaryTags),
+    ingredients: product.ingredients,
+    storageTemperatureC: product.storageTemperatureC,
+    shelfLifeAfterThawHours: product.shelfLifeAfterThawHours,
+    nutrition: attributes.nutrition ? JSON.stringify(attributes.nutrition) : null
+  };
+
+  return PRODUCT_CSV_COLUMNS.map(column => values[column]);
+}
+
+export async function exportProductsCsv(): Promise<string> {
+  const products = await db.product.findMany({
+    include: {
+      category: {
+        select: { slug: true }
+      }
+    },
+    orderBy: [
+      { createdAt: 'asc' },
+      { id: 'asc' }
+    ]
+  });
+
+  return toCsv([[...PRODUCT_CSV_COLUMNS], ...products.map(toCsvRow)]);
+}
+
+// Cells are converted to the types productSchema expects where they can
+// be; anything that can't is passed through for the schema to reject.
+// Empty cells are left out, so they keep the current value on update.
+function toProductInput(record: Partial<Record<ProductCsvColumn, string>>) {
+  const input: Record<string, unknown> = {};
+
+  for (const [column, value] of Object.entries(record) as [ProductCsvColumn, string][]) {
+    if (value === '' || column === 'categorySlug') {
+      continue;
+    }
+
+    if (NUMBER_COLUMNS.includes(column)) {
+      input[column] = Number.isNaN(Number(value)) ? value : Number(value);
+    } else if (BOOLEAN_COLUMNS.includes(column)) {
+      const normalized = value.toLowerCase();
+      input[column] = ['true', 'yes', '1'].includes(normalized)
+        ? true
+        : ['false', 'no', '0'].includes(normalized) ? false : value;
+    } else if (LIST_COLUMNS.includes(column)) {
+      input[column] = value.toLowerCase() === EMPTY_LIST
+        ? []
+        : value.split(';').map(item => item.trim().toLowerCase()).filter(Boolean);
+    } else if (column === 'status') {
+      input[column] = value.toUpperCase();
+    } else if (column === 'nutrition') {
+      try {
+        input[column] = JSON.parse(value);
+      } catch {
+        input[column] = value;
+      }
+    } else {
+      input[column] = value;
+    }
+  }
+
+  return input;
+}
+
+// The stored product in the same shape, to tell which fields a row changes
+function currentProductInput(product: Product): Record<string, unknown> {
+  const attributes = withProductAttributes(product);
+
+  return {
+    name: product.name,
+    slug: product.slug,
+    description: product.description,
+    price: product.price,
+    originalPrice: product.originalPrice,
+    image: product.image,
+    sku: product.sku,
+    stock: product.stock,
+    isFeatured: product.isFeatured,
+    categoryId: product.categoryId,
+    nutrition: attributes.nutrition,
+    allergens: attributes.allergens,
+    ingredients: product.ingredients,
+    storageTemperatureC: product.storageTemperatureC,
+    shelfLifeAfterThawHours: product.shelfLifeAfterThawHours,
+    dietaryTags: attributes.dietaryTags
+  };
+}
+
+export interface ImportRowError {
+  field: string;
+  message: string;
+}
+
+export interface ImportRowReport {
+  // Row in the file; row 1 is the header
+  row: number;
+  sku: string | null;
+  slug: string | null;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  productId?: string;
+  // Fields the row changes on an existing product
+  changes?: string[];
+  errors?: ImportRowError[];
+}
+
+interface PlannedChange {
+  report: ImportRowReport;
+  before: Product | null;
+  data: Prisma.ProductUncheckedUpdateInput;
+}
+
+export interface ProductImportPlan {
+  valid: boolean;
+  summary: Record<ImportRowReport['action'] | 'total', number>;
+  rows: ImportRowReport[];
+  changes: PlannedChange[];
+}
+
+function issueErrors(issues: z.ZodError['issues']): ImportRowError[] {
+  return issues.map(issue => ({
+    // Categories are given by slug in the file
+    field: issue.path[0] === 'categoryId' ? 'categorySlug' : issue.path.join('.'),
+    message: issue.message
+  }));
+}
+
+// Validates every row against the current catalog without writing
+// anything. Returns an error message when the file itself is unusable.
+export async function planProductImport(text: string): Promise<ProductImportPlan | { error: string }> {
+  const parsed = parseCsv(text);
+
+  if ('error' in parsed) {
+    return parsed;
+  }
+
+  const [header, ...records] = parsed;
+
+  if (!header) {
+    return { error: 'The file is empty' };
+  }
+
+  const columns = header.map(column => column.trim());
+  const unknownColumns = columns.filter(column => !PRODUCT_CSV_COLUMNS.includes(column as ProductCsvColumn));
+
+  if (unknownColumns.length > 0) {
+    return { error: `Unknown columns: ${unknownColumns.join(', ')}` };
+  }
+
+  if (new Set(columns).size !== columns.length) {
+    return { error: 'Each column may only appear once' };
+  }
+
+  if (!columns.includes('sku') && !columns.includes('slug')) {
+    return { error: 'The file needs a sku or slug column to match products' };
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { error: `At most ${MAX_IMPORT_ROWS} products can be imported at once` };
+  }
+
+  const [products, categories, variants] = await Promise.all([
+    db.product.findMany(),
+    loadCategories(),
+    db.productVariant.findMany({
+      select: { productId: true, sku: true }
+    })
+  ]);
+
+  const categoryIds = new Map(categories.map(category => [category.slug, category.id]));
+  const productsBySku = new Map(products.filter(product => product.sku).map(product => [product.sku!, product]));
+  const productsBySlug = new Map(products.map(product => [product.slug, product]));
+  const variantSkus = new Set(variants.map(variant => variant.sku));
+  const productsWithVariants = new Set(variants.map(variant => variant.productId));
+
+  // Who holds each SKU and slug as the file is applied: a product id, or
+  // `row:<n>` for products the file creates
+  const skuOwners = new Map(products.filter(product => product.sku).map(product => [product.sku!, product.id]));
+  const slugOwners = new Map(products.map(product => [product.slug, product.id]));
+  const updatedBy = new Map<string, number>();
+
+  const rows: ImportRowReport[] = [];
+  const changes: PlannedChange[] = [];
+
+  for (const [index, cells] of records.entries()) {
+    const rowNumber = index + 2;
+    const record = Object.fromEntries(
+      columns.map((column, i) => [column, (cells[i] ?? '').trim()])
+    ) as Partial<Record<ProductCsvColumn, string>>;
+
+    const report: ImportRowReport = {
+      row: rowNumber,
+      sku: record.sku || null,
+      slug: record.slug || null,
+      action: 'error'
+    };
+    const errors: ImportRowError[] = [];
+    rows.push(report);
+
+    if (cells.length > columns.length) {
+      errors.push({ field: 'row', message: `Expected ${columns.length} cells, found ${cells.length}` });
+    }
+
+    if (!record.sku && !record.slug) {
+      errors.push({ field: 'sku', message: 'Each row needs a sku or slug' });
+    }
+
+    // A SKU identifies the product; the slug is only used for rows
+    // without one, or to give a SKU to a product that has none
+    let existing: Product | null = null;
+
+    if (record.sku && productsBySku.has(record.sku)) {
+      existing = productsBySku.get(record.sku)!;
+    } else if (record.slug && productsBySlug.has(record.slug)) {
+      existing = productsBySlug.get(record.slug)!;
+
+      if (record.sku && existing.sku) {
+        errors.push({ field: 'slug', message: `Slug already used by the product with SKU ${existing.sku}` });
+      }
+    }
+
+    const input = toProductInput(record);
+
+    if (record.categorySlug) {
+      const categoryId = categoryIds.get(record.categorySlug);
+
+      if (categoryId) {
+        input.categoryId = categoryId;
+      } else {
+        errors.push({ field: 'categorySlug', message: `Unknown category: ${record.categorySlug}` });
+      }
+    }
+
+    const result = existing
+      ? productSchema.partial().safeParse(input)
+      : productSchema.safeParse(input);
+
+    if (!result.success) {
+      errors.push(...issueErrors(result.error.issues).filter(error =>
+        !errors.some(other => other.field === error.field)
+      ));
+    }
+
+    if (errors.length > 0 || !result.success) {
+      report.errors = errors;
+      continue;
+    }
+
+    // Only the columns the row filled in, without schema defaults on update
+    const { images, imageManifest, status, publishAt, unpublishAt, isActive, ...validated } = result.data;
+    const values = Object.fromEntries(
+      Object.entries(validated).filter(([key]) => existing ? key in input : true)
+    ) as typeof validated;
+
+    const schedule = resolveProductStatus(
+      { status, publishAt, unpublishAt, ...((!existing || 'isActive' in input) && { isActive }) },
+      existing ?? undefined
+    );
+    const scheduleData = 'error' in schedule ? null : schedule;
+
+    if ('error' in schedule) {
+      errors.push({ field: 'status', message: schedule.error });
+    }
+
+    const current = existing ? withProductAttributes(existing) : null;
+    const attributeConflict = findAttributeConflict({
+      allergens: values.allergens !== undefined ? values.allergens : current?.allergens,
+      dietaryTags: values.dietaryTags !== undefined ? values.dietaryTags : current?.dietaryTags
+    });
+
+    if (attributeConflict) {
+      errors.push({ field: 'dietaryTags', message: attributeConflict });
+    }
+
+    const owner = existing?.id ?? `row:${rowNumber}`;
+    const ownerMessage = (other: string) => other.startsWith('row:')
+      ? `row ${other.slice(4)}`
+      : 'another product';
+
+    if (existing && updatedBy.has(existing.id)) {
+      errors.push({ field: 'sku', message: `Same product as row ${updatedBy.get(existing.id)}` });
+    }
+
+    if (values.sku !== undefined) {
+      const skuOwner = skuOwners.get(values.sku);
+
+      if (skuOwner && skuOwner !== owner) {
+        errors.push({ field: 'sku', message: `SKU already used by ${ownerMessage(skuOwner)}` });
+      } else if (variantSkus.has(values.sku)) {
+        errors.push({ field: 'sku', message: 'SKU already used by a product variant' });
+      }
+    }
+
+    if (values.slug !== undefined) {
+      const slugOwner = slugOwners.get(values.slug);
+
+      if (slugOwner && slugOwner !== owner) {
+        errors.push({ field: 'slug', message: `Slug already used by ${ownerMessage(slugOwner)}` });
+      }
+    }
+
+    let changedFields: string[] = [];
+
+    if (existing) {
+      const before = currentProductInput(existing);
+      changedFields = Object.entries(values)
+        .filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(before[key] ?? null))
+        .map(([key]) => key === 'categoryId' ? 'categorySlug' : key);
+
+      if (scheduleData) {
+        changedFields.push(...SCHEDULE_FIELDS.filter(key =>
+          JSON.stringify(scheduleData[key]) !== JSON.stringify(existing[key])
+        ));
+      }
+
+      // The stock of a product with variants is the total of its variants,
+      // which is what the export contains, so only changes are refused
+      if (changedFields.includes('stock') && productsWithVariants.has(existing.id)) {
+        errors.push({ field: 'stock', message: 'Stock of a product with variants is managed per variant' });
+      }
+    }
+
+    if (errors.length > 0) {
+      report.errors = errors;
+      continue;
+    }
+
+    if (values.sku !== undefined) {
+      skuOwners.set(values.sku, owner);
+    }
+
+    if (values.slug !== undefined) {
+      slugOwners.set(values.slug, owner);
+    }
+
+    if (!existing) {
+      report.action = 'create';
+      changes.push({ report, before: null, data: { ...toProductData(values), ...scheduleData } });
+      continue;
+    }
+
+    updatedBy.set(existing.id, rowNumber);
+    report.productId = existing.id;
+
+    if (changedFields.length === 0) {
+      report.action = 'unchanged';
+      continue;
+    }
+
+    const changedData = Object.fromEntries(
+      Object.entries(values).filter(([key]) =>
+        changedFields.includes(key === 'categoryId' ? 'categorySlug' : key)
+      )
+    ) as typeof values;
+
+    report.action = 'update';
+    report.changes = changedFields;
+    changes.push({
+      report,
+      before: existing,
+      data: {
+        ...toProductData(changedData),
+        ...(SCHEDULE_FIELDS.some(key => changedFields.includes(key)) && scheduleData)
+      }
+    });
+  }
+
+  const summary = { total: rows.length, create: 0, update: 0, unchanged: 0, error: 0 };
+
+  for (const row of rows) {
+    summary[row.action]++;
+  }
+
+  return {
+    valid: summary.error === 0,
+    summary,
+    rows,
+    changes
+  };
+}
+
+// Writes a valid plan in one transaction, so a failure part way leaves the
+// catalog as it was. Returns the products before and after.
+export async function applyProductImport(plan: ProductImportPlan) {
+  return db.$transaction(async tx => {
+    const applied: { before: Product | null; after: Product }[] = [];
+
+    for (const change of plan.changes) {
+      const after = change.before
+        ? await tx.product.update({
+          where: { id: change.before.id },
+          data: change.data
+        })
+        : await tx.product.create({
+          data: change.data as Prisma.ProductUncheckedCreateInput
+        });
+
+      change.report.productId = after.id;
+      applied.push({ before: change.before, after });
+    }
+
+    return applied;
+  }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+}
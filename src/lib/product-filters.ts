@@ -0,0 +1,240 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { loadCategories } from '@/lib/categories';
+import { NEWEST_FIRST, SortSpec } from '@/lib/pagination';
+import { ALLERGENS, DIETARY_TAGS, jsonListContains } from '@/lib/product-attributes';
+
+export const PRODUCT_SORTS = [
+  'newest',
+  'price_asc',
+  'price_desc',
+  'rating',
+  'popularity',
+  'name',
+  'relevance'
+] as const;
+
+export type ProductSort = typeof PRODUCT_SORTS[number];
+
+// Upper bounds are exclusive; the last bucket is open-ended
+export const PRICE_BUCKETS = [
+  { key: '0-5', min: 0, max: 5 },
+  { key: '5-10', min: 5, max: 10 },
+  { key: '10-20', min: 10, max: 20 },
+  { key: '20-50', min: 20, max: 50 },
+  { key: '50+', min: 50, max: null }
+] as const;
+
+// "4 stars & up", "3 stars & up", ...
+export const RATING_THRESHOLDS = [4, 3, 2, 1] as const;
+
+const booleanParam = z.enum(['true', 'false']).transform(value => value === 'true');
+
+// Comma-separated values, e.g. `excludeAllergens=peanut,milk`
+function listParam<T extends readonly [string, ...string[]]>(values: T) {
+  return z.string()
+    .transform(value => value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean))
+    .pipe(z.array(z.enum(values)));
+}
+
+export const productFilterSchema = z.object({
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  inStock: booleanParam.optional(),
+  onOffer: booleanParam.optional(),
+  excludeAllergens: listParam(ALLERGENS).optional(),
+  diet: listParam(DIETARY_TAGS).optional(),
+  sort: z.enum(PRODUCT_SORTS).optional(),
+  facets: booleanParam.default(true),
+}).refine(
+  filters => filters.minPrice === undefined || filters.maxPrice === undefined || filters.minPrice <= filters.maxPrice,
+  { message: 'minPrice must not be greater than maxPrice', path: ['minPrice'] }
+);
+
+export type ProductFilters = z.infer<typeof productFilterSchema>;
+
+export function parseProductFilters(searchParams: URLSearchParams) {
+  return productFilterSchema.safeParse(Object.fromEntries(searchParams));
+}
+
+// Filters are kept apart by facet so each facet can be counted with every
+// filter except its own; otherwise picking a category would hide the others
+export interface ProductWhereParts {
+  base: Prisma.ProductWhereInput[];
+  category?: Prisma.ProductWhereInput;
+  price?: Prisma.ProductWhereInput;
+  rating?: Prisma.ProductWhereInput;
+}
+
+type Facet = 'category' | 'price' | 'rating';
+
+export function combineWhere(parts: ProductWhereParts, except?: Facet): Prisma.ProductWhereInput {
+  const conditions = [...parts.base];
+
+  for (const facet of ['category', 'price', 'rating'] as const) {
+    const condition = parts[facet];
+
+    if (condition && facet !== except) {
+      conditions.push(condition);
+    }
+  }
+
+  return { AND: conditions };
+}
+
+function priceRange(min?: number | null, max?: number | null): Prisma.ProductWhereInput {
+  return {
+    price: {
+      ...(min != null && { gte: min }),
+      ...(max != null && { lt: max })
+    }
+  };
+}
+
+// A product is on offer when it is marked down or linked to a running offer
+function onOfferWhere(): Prisma.ProductWhereInput {
+  const now = new Date();
+
+  return {
+    OR: [
+      { originalPrice: { gt: db.product.fields.price } },
+      {
+        offers: {
+          some: {
+            offer: {
+              isActive: true,
+              startsAt: { lte: now },
+              endsAt: { gte: now }
+            }
+          }
+        }
+      }
+    ]
+  };
+}
+
+// Adds the shopper-facing filters to the route's own conditions
+export function applyProductFilters(parts: ProductWhereParts, filters: ProductFilters): ProductWhereParts {
+  const base = [...parts.base];
+
+  if (filters.inStock) {
+    base.push({ stock: { gt: 0 } });
+  }
+
+  if (filters.onOffer) {
+    base.push(onOfferWhere());
+  }
+
+  // Products that haven't declared their allergens can't be shown as free
+  // of any of them
+  if (filters.excludeAllergens?.length) {
+    base.push({ allergens: { not: null } });
+
+    for (const allergen of filters.excludeAllergens) {
+      base.push({ NOT: { allergens: jsonListContains(allergen) } });
+    }
+  }
+
+  // Every requested tag must be present
+  for (const tag of filters.diet ?? []) {
+    base.push({ dietaryTags: jsonListContains(tag) });
+  }
+
+  return {
+    ...parts,
+    base,
+    // maxPrice is inclusive for shoppers, unlike bucket bounds
+    price: filters.minPrice !== undefined || filters.maxPrice !== undefined
+      ? {
+        price: {
+          ...(filters.minPrice !== undefined && { gte: filters.minPrice }),
+          ...(filters.maxPrice !== undefined && { lte: filters.maxPrice })
+        }
+      }
+      : undefined,
+    rating: filters.minRating !== undefined
+      ? { rating: { gte: filters.minRating } }
+      : undefined
+  };
+}
+
+// Relevance and popularity are ranked in code
+export function isRankedSort(sort: ProductSort): sort is 'relevance' | 'popularity' {
+  return sort === 'relevance' || sort === 'popularity';
+}
+
+// Sorts Prisma can do itself
+export function productSortSpec(sort: ProductSort): SortSpec {
+  switch (sort) {
+    case 'price_asc':
+      return { field: 'price', direction: 'asc', type: 'number' };
+    case 'price_desc':
+      return { field: 'price', direction: 'desc', type: 'number' };
+    case 'rating':
+      return { field: 'rating', direction: 'desc', type: 'number' };
+    case 'name':
+      return { field: 'name', direction: 'asc', type: 'string' };
+    default:
+      return NEWEST_FIRST;
+  }
+}
+
+// Units sold per product, not counting cancelled orders
+export async function getUnitsSold(productIds: string[]): Promise<Map<string, number>> {
+  const rows = await db.orderItem.groupBy({
+    by: ['productId'],
+    where: {
+      productId: { in: productIds },
+      order: { status: { not: 'CANCELLED' } }
+    },
+    _sum: { quantity: true }
+  });
+
+  return new Map(rows.map(row => [row.productId, row._sum.quantity ?? 0]));
+}
+
+export async function getProductFacets(parts: ProductWhereParts) {
+  const [categoryGroups, priceCounts, ratingCounts, categories] = await Promise.all([
+    db.product.groupBy({
+      by: ['categoryId'],
+      where: combineWhere(parts, 'category'),
+      _count: { _all: true }
+    }),
+    Promise.all(PRICE_BUCKETS.map(bucket => db.product.count({
+      where: { AND: [combineWhere(parts, 'price'), priceRange(bucket.min, bucket.max)] }
+    }))),
+    Promise.all(RATING_THRESHOLDS.map(minRating => db.product.count({
+      where: { AND: [combineWhere(parts, 'rating'), { rating: { gte: minRating } }] }
+    }))),
+    loadCategories()
+  ]);
+
+  const categoriesById = new Map(categories.map(category => [category.id, category]));
+
+  return {
+    categories: categoryGroups
+      .map(group => {
+        const category = categoriesById.get(group.categoryId);
+
+        return {
+          id: group.categoryId,
+          name: category?.name ?? null,
+          slug: category?.slug ?? null,
+          count: group._count._all
+        };
+      })
+      .sort((a, b) => b.count - a.count),
+    priceRanges: PRICE_BUCKETS.map((bucket, i) => ({
+      key: bucket.key,
+      min: bucket.min,
+      max: bucket.max,
+      count: priceCounts[i]
+    })),
+    ratings: RATING_THRESHOLDS.map((minRating, i) => ({
+      minRating,
+      count: ratingCounts[i]
+    }))
+  };
+}
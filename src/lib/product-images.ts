@@ -0,0 +1,186 @@
+import { Prisma, ProductImage } from '@prisma/client';
+import { z } from 'zod';
+import { access } from 'fs/promises';
+import sharp from 'sharp';
+import { db } from '@/lib/db';
+import { resolveUploadPath } from '@/lib/uploads';
+import { parseImageManifest, readImageManifest, withImageManifest } from '@/lib/image-processing';
+
+export const MAX_PRODUCT_IMAGES = 20;
+
+export const productImageSchema = z.object({
+  // A URL returned by /api/admin/upload
+  url: z.string().min(1),
+  alt: z.string().trim().max(300).nullable().optional(),
+});
+
+export const productImageUpdateSchema = z.object({
+  alt: z.string().trim().max(300).nullable(),
+});
+
+export const productImageOrderSchema = z.object({
+  // Every image of the product, in the new order
+  imageIds: z.array(z.string().min(1)).min(1),
+});
+
+export type ProductImageInput = z.infer<typeof productImageSchema>;
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export const PRODUCT_IMAGE_ORDER = [
+  { position: 'asc' },
+  { createdAt: 'asc' }
+] satisfies Prisma.ProductImageOrderByWithRelationInput[];
+
+async function readImageDimensions(path: string) {
+  try {
+    const { width, height } = await sharp(path).metadata();
+    return { width: width ?? null, height: height ?? null };
+  } catch {
+    return null;
+  }
+}
+
+// Checks that the image is an existing upload and reads its size and
+// renditions. Returns the row data, or an error message.
+export async function prepareProductImage(
+  input: ProductImageInput
+): Promise<{
+  url: string;
+  alt: string | null;
+  width: number | null;
+  height: number | null;
+  manifest: string | null;
+} | { error: string }> {
+  const path = resolveUploadPath(input.url);
+
+  if (!path) {
+    return { error: 'Images must be files uploaded through /api/admin/upload' };
+  }
+
+  try {
+    await access(path);
+  } catch {
+    return { error: `Uploaded file not found: ${input.url}` };
+  }
+
+  const dimensions = await readImageDimensions(path);
+
+  if (!dimensions) {
+    return { error: `Not a readable image: ${input.url}` };
+  }
+
+  const manifest = await readImageManifest(input.url);
+
+  return {
+    url: input.url,
+    alt: input.alt || null,
+    ...dimensions,
+    manifest: manifest ? JSON.stringify(manifest) : null
+  };
+}
+
+export function toPublicProductImage(image: ProductImage) {
+  return { ...image, manifest: parseImageManifest(image.manifest) };
+}
+
+// Products with their image manifests decoded for API responses
+export function withProductImages<T extends { imageManifest: string | null; images?: ProductImage[] }>(product: T) {
+  return {
+    ...withImageManifest(product),
+    ...(product.images && { images: product.images.map(toPublicProductImage) })
+  };
+}
+
+// Renumbers a product's images 0, 1, 2... keeping their order
+export async function compactImagePositions(productId: string, client: DbClient = db) {
+  const images = await client.productImage.findMany({
+    where: { productId },
+    orderBy: PRODUCT_IMAGE_ORDER,
+    select: { id: true, position: true }
+  });
+
+  for (const [position, image] of images.entries()) {
+    if (image.position !== position) {
+      await client.productImage.update({
+        where: { id: image.id },
+        data: { position }
+      });
+    }
+  }
+}
+
+// The old `images` column held a JSON array of URLs (or of { url, alt }).
+// Moves it into ProductImage rows after any existing ones and clears it.
+// Safe to run more than once; malformed values are reported and left alone.
+export async function migrateLegacyProductImages() {
+  const products = await db.product.findMany({
+    where: { legacyImages: { not: null } },
+    select: { id: true, legacyImages: true }
+  });
+
+  const result = { migrated: 0, images: 0, failed: [] as { productId: string; reason: string }[] };
+
+  for (const product of products) {
+    let entries: unknown;
+
+    try {
+      entries = JSON.parse(product.legacyImages!);
+    } catch {
+      result.failed.push({ productId: product.id, reason: 'Invalid JSON' });
+      continue;
+    }
+
+    if (!Array.isArray(entries)) {
+      result.failed.push({ productId: product.id, reason: 'Not a JSON array' });
+      continue;
+    }
+
+    const images = entries
+      .map(entry => typeof entry === 'string' ? { url: entry, alt: null } : entry)
+      .filter((entry): entry is { url: string; alt?: unknown } =>
+        !!entry && typeof entry.url === 'string' && entry.url.length > 0
+      );
+
+    await db.$transaction(async tx => {
+      const existing = await tx.productImage.findMany({
+        where: { productId: product.id },
+        select: { url: true, position: true }
+      });
+      const existingUrls = new Set(existing.map(image => image.url));
+      let position = existing.reduce((max, image) => Math.max(max, image.position + 1), 0);
+
+      for (const image of images) {
+        if (existingUrls.has(image.url)) {
+          continue;
+        }
+
+        const path = resolveUploadPath(image.url);
+        const dimensions = path ? await readImageDimensions(path) : null;
+
+        await tx.productImage.create({
+          data: {
+            productId: product.id,
+            url: image.url,
+            alt: typeof image.alt === 'string' ? image.alt : null,
+            position: position++,
+            width: dimensions?.width ?? null,
+            height: dimensions?.height ?? null
+          }
+        });
+
+        existingUrls.add(image.url);
+        result.images++;
+      }
+
+      await tx.product.update({
+        where: { id: product.id },
+        data: { legacyImages: null }
+      });
+    });
+
+    result.migrated++;
+  }
+
+  return result;
+}
@@ -0,0 +1,97 @@
+import { db } from '@/lib/db';
+
+// Background sweep for scheduled products, see src/lib/product-status.ts.
+// Public queries don't wait for it; it moves statuses along and keeps
+// `isActive` right for code that reads the flag directly.
+
+// How often the sweep publishes and unpublishes scheduled products
+export const PRODUCT_SCHEDULE_INTERVAL_MS = 60 * 1000;
+
+// Publishes and unpublishes products whose time has come, and switches
+// `isActive` off where the product is no longer on sale. The flag is never
+// switched on for a product the sweep didn't publish itself: ACTIVE with
+// isActive false is how a product switched off before statuses existed
+// looks, see migrateLegacyProductStatus.
+export async function syncProductSchedules(now = new Date()) {
+  const published = await db.product.updateMany({
+    where: {
+      status: 'SCHEDULED',
+      publishAt: { lte: now },
+      OR: [
+        { unpublishAt: null },
+        { unpublishAt: { gt: now } }
+      ]
+    },
+    data: { status: 'ACTIVE', isActive: true }
+  });
+
+  const unpublished = await db.product.updateMany({
+    where: {
+      status: { in: ['ACTIVE', 'SCHEDULED'] },
+      unpublishAt: { lte: now }
+    },
+    data: { status: 'ARCHIVED', isActive: false }
+  });
+
+  const deactivated = await db.product.updateMany({
+    where: { status: { not: 'ACTIVE' }, isActive: true },
+    data: { isActive: false }
+  });
+
+  return {
+    published: published.count,
+    unpublished: unpublished.count,
+    corrected: deactivated.count
+  };
+}
+
+let scheduleTimer: NodeJS.Timeout | null = null;
+let sweepRunning = false;
+
+async function runSweep() {
+  // A slow sweep is not started again underneath itself
+  if (sweepRunning) {
+    return;
+  }
+
+  sweepRunning = true;
+
+  try {
+    const result = await syncProductSchedules();
+
+    if (result.published || result.unpublished || result.corrected) {
+      console.log(
+        `Product schedule: ${result.published} published, ${result.unpublished} unpublished, ` +
+        `${result.corrected} corrected`
+      );
+    }
+  } catch (error) {
+    console.error('Error syncing product schedules:', error);
+  } finally {
+    sweepRunning = false;
+  }
+}
+
+// Runs the sweep now and then every PRODUCT_SCHEDULE_INTERVAL_MS. Called
+// once from server.ts.
+export function startProductScheduleSweep() {
+  if (scheduleTimer) {
+    return;
+  }
+
+  void runSweep();
+  scheduleTimer = setInterval(runSweep, PRODUCT_SCHEDULE_INTERVAL_MS);
+  scheduleTimer.unref();
+}
+
+// Products switched off before statuses existed are ACTIVE with isActive
+// false after `prisma db push`, which public queries would show. Marks them
+// ARCHIVED. Run once by prisma/migrate-product-status.ts; safe to repeat.
+export async function migrateLegacyProductStatus() {
+  const archived = await db.product.updateMany({
+    where: { status: 'ACTIVE', isActive: false },
+    data: { status: 'ARCHIVED' }
+  });
+
+  return { archived: archived.count };
+}
@@ -0,0 +1,145 @@
+import { NextRequest } from 'next/server';
+import { Prisma, ProductStatus } from '@prisma/client';
+import { z } from 'zod';
+import { userHasPermission, verifyAuth } from '@/lib/auth';
+
+// Product lifecycle:
+// - DRAFT: being prepared, never shown
+// - SCHEDULED: goes on sale at `publishAt`
+// - ACTIVE: on sale, until `unpublishAt` when one is set
+// - ARCHIVED: taken off sale
+// Public product queries check the status and timestamps themselves, so a
+// product appears and disappears on time. `isActive` mirrors "on sale now"
+// for code that reads the flag; it is set on every change and kept in step
+// with the clock by the sweep in src/lib/product-schedule.ts.
+
+export const PRODUCT_STATUSES = ['DRAFT', 'SCHEDULED', 'ACTIVE', 'ARCHIVED'] as const;
+
+// Fields shared by the create and update schemas; null clears a timestamp
+export const productStatusFields = {
+  status: z.enum(PRODUCT_STATUSES).optional(),
+  publishAt: z.string().datetime().nullable().optional(),
+  unpublishAt: z.string().datetime().nullable().optional(),
+};
+
+export interface ProductStatusInput {
+  status?: ProductStatus;
+  publishAt?: string | null;
+  unpublishAt?: string | null;
+  // Before statuses existed this was the only switch; still accepted when
+  // no status is given
+  isActive?: boolean;
+}
+
+export interface ProductSchedule {
+  status: ProductStatus;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+}
+
+// Products on sale at `now`
+export function liveProductWhere(now = new Date()): Prisma.ProductWhereInput {
+  return {
+    AND: [
+      {
+        OR: [
+          { status: 'ACTIVE' },
+          { status: 'SCHEDULED', publishAt: { lte: now } }
+        ]
+      },
+      {
+        OR: [
+          { unpublishAt: null },
+          { unpublishAt: { gt: now } }
+        ]
+      }
+    ]
+  };
+}
+
+export function isProductLive(product: ProductSchedule, now = new Date()): boolean {
+  if (product.unpublishAt && product.unpublishAt <= now) {
+    return false;
+  }
+
+  return product.status === 'ACTIVE' ||
+    (product.status === 'SCHEDULED' && !!product.publishAt && product.publishAt <= now);
+}
+
+function toDate(value: string | null | undefined, current: Date | null): Date | null {
+  if (value === undefined) {
+    return current;
+  }
+
+  return value ? new Date(value) : null;
+}
+
+// Works out the status columns for a create (no `current`) or update.
+// Statuses are stored as they stand now: an active product with a future
+// publishAt is SCHEDULED, a scheduled one whose time has come is ACTIVE and
+// one past its unpublishAt is ARCHIVED. Returns an error message for
+// impossible schedules.
+export function resolveProductStatus(
+  input: ProductStatusInput,
+  current?: ProductSchedule,
+  now = new Date()
+): (ProductSchedule & { isActive: boolean }) | { error: string } {
+  const publishAt = toDate(input.publishAt, current?.publishAt ?? null);
+  let unpublishAt = toDate(input.unpublishAt, current?.unpublishAt ?? null);
+
+  let requested: ProductStatus | undefined = input.status;
+
+  if (!requested && input.isActive !== undefined) {
+    requested = input.isActive ? 'ACTIVE' : current ? 'ARCHIVED' : 'DRAFT';
+  }
+
+  if (requested === 'SCHEDULED' && !publishAt) {
+    return { error: 'A scheduled product needs a publishAt date' };
+  }
+
+  let status: ProductStatus = requested ?? current?.status ?? 'ACTIVE';
+
+  // A new future publishAt on its own (re)schedules the product
+  if (!requested && input.publishAt && publishAt! > now && status !== 'DRAFT') {
+    status = 'SCHEDULED';
+  }
+
+  // Putting a product back on sale drops an unpublish time that has
+  // already passed, rather than archiving it again straight away
+  if (
+    (status === 'ACTIVE' || status === 'SCHEDULED') &&
+    (requested || status !== current?.status) &&
+    input.unpublishAt === undefined &&
+    unpublishAt && unpublishAt <= now
+  ) {
+    unpublishAt = null;
+  }
+
+  if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+    return { error: 'unpublishAt must be after publishAt' };
+  }
+
+  if (status === 'ACTIVE' || status === 'SCHEDULED') {
+    if (unpublishAt && unpublishAt <= now) {
+      status = 'ARCHIVED';
+    } else if (publishAt && publishAt > now) {
+      status = 'SCHEDULED';
+    } else {
+      status = 'ACTIVE';
+    }
+  }
+
+  return {
+    status,
+    publishAt,
+    unpublishAt,
+    isActive: status === 'ACTIVE'
+  };
+}
+
+// Staff who manage products also see drafts, scheduled and archived
+// products on the public endpoints
+export async function canSeeUnpublishedProducts(request: NextRequest): Promise<boolean> {
+  const user = await verifyAuth(request);
+  return !!user && await userHasPermission(user, 'products:write');
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { productAttributeFields } from '@/lib/product-attributes';
+import { productStatusFields } from '@/lib/product-status';
+import { imageManifestSchema } from '@/lib/image-processing';
+import { MAX_PRODUCT_IMAGES, productImageSchema } from '@/lib/product-images';
+
+// A complete product, as created through POST /api/products or a CSV import
+export const productSchema = z.object({
+  name: z.string().min(1),
+  slug: z.string().min(1),
+  description: z.string().optional(),
+  price: z.number().positive(),
+  originalPrice: z.number().positive().optional(),
+  image: z.string().url().optional(),
+  // The manifest returned by /api/admin/upload for `image`
+  imageManifest: imageManifestSchema.nullable().optional(),
+  // Gallery, in display order; managed afterwards through /products/{id}/images
+  images: z.array(productImageSchema).max(MAX_PRODUCT_IMAGES).optional(),
+  sku: z.string().optional(),
+  stock: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+  ...productStatusFields,
+  isFeatured: z.boolean().default(false),
+  categoryId: z.string().min(1),
+  ...productAttributeFields,
+});
+
+export type ProductInput = z.infer<typeof productSchema>;
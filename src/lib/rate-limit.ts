@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+
+export interface RateLimitStore {
+  // Counts a hit for the key in its current fixed window
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }>;
+  reset(key: string): Promise<void>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+// Per-process counters; fine for a single server instance
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { count: number; resetAt: number }>();
+  let lastSweep = Date.now();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+
+      // Drop expired buckets now and then so the map doesn't grow forever
+      if (now - lastSweep > 60 * 1000) {
+        for (const [bucketKey, bucket] of buckets) {
+          if (bucket.resetAt <= now) {
+            buckets.delete(bucketKey);
+          }
+        }
+        lastSweep = now;
+      }
+
+      let bucket = buckets.get(key);
+      if (!bucket || bucket.resetAt <= now) {
+        bucket = { count: 0, resetAt: now + windowMs };
+        buckets.set(key, bucket);
+      }
+
+      bucket.count += 1;
+      return { count: bucket.count, resetAt: new Date(bucket.resetAt) };
+    },
+
+    async reset(key) {
+      buckets.delete(key);
+    }
+  };
+}
+
+// Counters in the application database, shared by every server process
+export function createDatabaseRateLimitStore(): RateLimitStore {
+  return {
+    async increment(key, windowMs) {
+      const now = new Date();
+      const existing = await db.rateLimitBucket.findUnique({
+        where: { key }
+      });
+
+      if (!existing || existing.resetAt <= now) {
+        const bucket = await db.rateLimitBucket.upsert({
+          where: { key },
+          create: { key, count: 1, resetAt: new Date(now.getTime() + windowMs) },
+          update: { count: 1, resetAt: new Date(now.getTime() + windowMs) }
+        });
+        return { count: bucket.count, resetAt: bucket.resetAt };
+      }
+
+      const bucket = await db.rateLimitBucket.update({
+        where: { key },
+        data: { count: { increment: 1 } }
+      });
+      return { count: bucket.count, resetAt: bucket.resetAt };
+    },
+
+    async reset(key) {
+      await db.rateLimitBucket.deleteMany({
+        where: { key }
+      });
+    }
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE selects the backend: "memory" (default) or "database"
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === 'database'
+      ? createDatabaseRateLimitStore()
+      : createMemoryRateLimitStore();
+  }
+
+  return store;
+}
+
+export function setRateLimitStore(customStore: RateLimitStore) {
+  store = customStore;
+}
+
+export async function rateLimit(
+  key: string,
+  options: { limit: number; windowMs: number }
+): Promise<RateLimitResult> {
+  const { count, resetAt } = await getRateLimitStore().increment(key, options.windowMs);
+
+  return {
+    allowed: count <= options.limit,
+    limit: options.limit,
+    remaining: Math.max(0, options.limit - count),
+    retryAfterSeconds: Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000))
+  };
+}
+
+export async function resetRateLimit(key: string) {
+  await getRateLimitStore().reset(key);
+}
+
+export function tooManyRequests(
+  retryAfterSeconds: number,
+  body: Record<string, unknown> = { error: 'Too many requests, please try again later' }
+): NextResponse {
+  return NextResponse.json(
+    { ...body, retryAfter: retryAfterSeconds },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(retryAfterSeconds) }
+    }
+  );
+}
@@ -0,0 +1,215 @@
+import { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+
+// Full-text product search on an SQLite FTS5 table. Prisma can't describe
+// virtual tables, so the index is created on first use (and rebuilt from
+// the products table when it is missing, e.g. after `prisma db push` on a
+// fresh database). Routes that change products call indexProduct /
+// removeProductFromIndex so it stays in sync.
+//
+// Columns: product_id (not searchable), name, description, sku (the product
+// SKU plus its variant SKUs) and category (the category name).
+
+const SEARCH_TABLE = 'product_search';
+
+// bm25 weights, one per column in declaration order
+const WEIGHT_NAME = 10;
+const WEIGHT_DESCRIPTION = 2;
+const WEIGHT_SKU = 5;
+const WEIGHT_CATEGORY = 3;
+
+// Upper bound on matches considered for a single search
+export const SEARCH_MAX_RESULTS = 1000;
+
+const MAX_QUERY_TERMS = 10;
+const SNIPPET_TOKENS = 16;
+
+// Control characters stand in for <mark> tags until the text is escaped
+const MARK_OPEN = '\u0002';
+const MARK_CLOSE = '\u0003';
+
+export interface ProductSearchHit {
+  productId: string;
+  // Lower is more relevant (bm25 scores are negative)
+  rank: number;
+  // HTML-escaped, with matches wrapped in <mark>
+  highlight: {
+    name: string;
+    description: string;
+  };
+}
+
+let searchIndexReady: Promise<void> | null = null;
+
+export function ensureSearchIndex(): Promise<void> {
+  if (!searchIndexReady) {
+    searchIndexReady = createSearchIndex().catch(error => {
+      searchIndexReady = null;
+      throw error;
+    });
+  }
+
+  return searchIndexReady;
+}
+
+async function createSearchIndex() {
+  const existing = await db.$queryRaw<{ name: string }[]>`
+    SELECT name FROM sqlite_master WHERE type = 'table' AND name = ${SEARCH_TABLE}
+  `;
+
+  if (existing.length > 0) {
+    return;
+  }
+
+  // Prefix indexes keep `"piz"*` style queries fast
+  await db.$executeRawUnsafe(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS ${SEARCH_TABLE} USING fts5(
+      product_id UNINDEXED,
+      name,
+      description,
+      sku,
+      category,
+      tokenize = 'unicode61 remove_diacritics 2',
+      prefix = '2 3'
+    )
+  `);
+
+  await rebuildSearchIndex();
+}
+
+// Rows to index, for one product or (with no id) all of them
+function indexRowsSql(productId?: string) {
+  return Prisma.sql`
+    SELECT
+      p.id,
+      p.name,
+      COALESCE(p.description, ''),
+      TRIM(COALESCE(p.sku, '') || ' ' || COALESCE(
+        (SELECT group_concat(v.sku, ' ') FROM product_variants v WHERE v.productId = p.id),
+        ''
+      )),
+      COALESCE(c.name, '')
+    FROM products p
+    LEFT JOIN categories c ON c.id = p.categoryId
+    ${productId ? Prisma.sql`WHERE p.id = ${productId}` : Prisma.empty}
+  `;
+}
+
+export async function rebuildSearchIndex() {
+  await db.$transaction([
+    db.$executeRaw`DELETE FROM product_search`,
+    db.$executeRaw`
+      INSERT INTO product_search (product_id, name, description, sku, category)
+      ${indexRowsSql()}
+    `
+  ]);
+}
+
+// Index maintenance must not fail the change that triggered it; a stale
+// entry is corrected the next time the product is saved
+export async function indexProduct(productId: string) {
+  try {
+    await ensureSearchIndex();
+    await db.$transaction([
+      db.$executeRaw`DELETE FROM product_search WHERE product_id = ${productId}`,
+      db.$executeRaw`
+        INSERT INTO product_search (product_id, name, description, sku, category)
+        ${indexRowsSql(productId)}
+      `
+    ]);
+  } catch (error) {
+    console.error('Error indexing product for search:', error);
+  }
+}
+
+export async function indexProducts(productIds: string[]) {
+  for (const productId of productIds) {
+    await indexProduct(productId);
+  }
+}
+
+export async function removeProductFromIndex(productId: string) {
+  try {
+    await ensureSearchIndex();
+    await db.$executeRaw`DELETE FROM product_search WHERE product_id = ${productId}`;
+  } catch (error) {
+    console.error('Error removing product from search index:', error);
+  }
+}
+
+// A renamed category changes what its products match on
+export async function indexCategoryProducts(categoryId: string) {
+  const products = await db.product.findMany({
+    where: { categoryId },
+    select: { id: true }
+  });
+
+  await indexProducts(products.map(product => product.id));
+}
+
+// Turns free text into an FTS5 query: every word must match, as a prefix.
+// Words are quoted so FTS5 operators in user input are taken literally.
+export function toMatchQuery(search: string): string | null {
+  const terms = search.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms
+    .slice(0, MAX_QUERY_TERMS)
+    .map(term => `"${term}"*`)
+    .join(' ');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function toHighlightHtml(text: string | null): string {
+  return escapeHtml(text ?? '')
+    .split(MARK_OPEN).join('<mark>')
+    .split(MARK_CLOSE).join('</mark>');
+}
+
+// Matching products, most relevant first
+export async function searchProducts(search: string): Promise<ProductSearchHit[]> {
+  const match = toMatchQuery(search);
+
+  if (!match) {
+    return [];
+  }
+
+  await ensureSearchIndex();
+
+  const rows = await db.$queryRaw<{
+    productId: string;
+    rank: number;
+    name: string | null;
+    description: string | null;
+  }[]>`
+    SELECT
+      product_id AS productId,
+      bm25(product_search, 0, ${WEIGHT_NAME}, ${WEIGHT_DESCRIPTION}, ${WEIGHT_SKU}, ${WEIGHT_CATEGORY}) AS rank,
+      highlight(product_search, 1, ${MARK_OPEN}, ${MARK_CLOSE}) AS name,
+      snippet(product_search, 2, ${MARK_OPEN}, ${MARK_CLOSE}, '…', ${SNIPPET_TOKENS}) AS description
+    FROM product_search
+    WHERE product_search MATCH ${match}
+    ORDER BY rank
+    LIMIT ${SEARCH_MAX_RESULTS}
+  `;
+
+  return rows.map(row => ({
+    productId: row.productId,
+    rank: Number(row.rank),
+    highlight: {
+      name: toHighlightHtml(row.name),
+      description: toHighlightHtml(row.description)
+    }
+  }));
+}
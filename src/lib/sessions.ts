@@ -0,0 +1,274 @@
+import { NextRequest } from 'next/server';
+import { createHash, randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { ACCESS_TOKEN_TTL_SECONDS, generateToken } from '@/lib/auth';
+
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Impersonation sessions last as long as a single access token and can't be
+// refreshed; support starts a new one if needed
+export const IMPERSONATION_TTL_SECONDS = 15 * 60;
+
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+  sessionId: string;
+}
+
+export type RefreshResult =
+  | { status: 'ok'; tokens: IssuedTokens }
+  | { status: 'invalid' }
+  | { status: 'reused' };
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): string {
+  return randomBytes(48).toString('base64url');
+}
+
+// Set by server.ts to the connection's address, replacing anything the
+// client sent under the same name
+export const REMOTE_ADDRESS_HEADER = 'x-snazo-remote-address';
+
+// Number of reverse proxies in front of the server whose forwarding headers
+// can be trusted: unset or 0 when clients connect directly, as then
+// X-Forwarded-For is whatever the client chose to send
+function trustedProxyCount(): number {
+  const value = process.env.TRUST_PROXY;
+
+  if (value === 'true') {
+    return 1;
+  }
+
+  const count = parseInt(value ?? '', 10);
+  return Number.isNaN(count) || count < 0 ? 0 : count;
+}
+
+function normalizeIp(address: string): string {
+  // IPv4 clients on a dual-stack socket show up as ::ffff:1.2.3.4
+  return address.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+}
+
+// The address rate limits, sessions and the audit log are keyed on. Each
+// trusted proxy appends the address it received the request from to
+// X-Forwarded-For, so the client is the entry that many hops back from the
+// connection; entries further left are client supplied.
+export function getClientIp(request: NextRequest): string | null {
+  const remoteAddress = request.headers.get(REMOTE_ADDRESS_HEADER) || null;
+  const proxies = trustedProxyCount();
+
+  if (proxies === 0) {
+    return remoteAddress ? normalizeIp(remoteAddress) : null;
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+
+  if (!forwardedFor) {
+    const realIp = request.headers.get('x-real-ip') || remoteAddress;
+    return realIp ? normalizeIp(realIp) : null;
+  }
+
+  const chain = [
+    ...forwardedFor.split(',').map(normalizeIp).filter(Boolean),
+    ...(remoteAddress ? [normalizeIp(remoteAddress)] : [])
+  ];
+
+  return chain[Math.max(0, chain.length - 1 - proxies)] ?? null;
+}
+
+// Session in which an admin acts as another user, returned as an access
+// token marked with the admin's id
+export async function createImpersonationSession(
+  user: { id: string; email: string; role: string },
+  impersonator: { id: string },
+  request: NextRequest
+): Promise<{ token: string; expiresIn: number; sessionId: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + IMPERSONATION_TTL_SECONDS * 1000);
+
+  const session = await db.session.create({
+    data: {
+      userId: user.id,
+      impersonatorId: impersonator.id,
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: getClientIp(request),
+      expiresAt
+    }
+  });
+
+  return {
+    token: generateToken(user, session.id, { impersonatorId: impersonator.id }),
+    expiresIn: IMPERSONATION_TTL_SECONDS,
+    sessionId: session.id,
+    expiresAt
+  };
+}
+
+// Starts a new session (one per device/login) and issues its first token pair
+export async function createSession(
+  user: { id: string; email: string; role: string },
+  request: NextRequest,
+  options: { mfaVerified?: boolean } = {}
+): Promise<IssuedTokens> {
+  const refreshToken = generateRefreshToken();
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+
+  const session = await db.session.create({
+    data: {
+      userId: user.id,
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: getClientIp(request),
+      mfaVerifiedAt: options.mfaVerified ? new Date() : null,
+      expiresAt,
+      refreshTokens: {
+        create: {
+          tokenHash: hashToken(refreshToken)
+        }
+      }
+    }
+  });
+
+  return {
+    token: generateToken(user, session.id),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    sessionId: session.id
+  };
+}
+
+// Exchanges a refresh token for a new token pair. Every refresh token can be
+// used once; presenting one that was already rotated means it leaked, so the
+// whole session is revoked.
+export async function rotateRefreshToken(
+  refreshToken: string,
+  request: NextRequest
+): Promise<RefreshResult> {
+  const existing = await db.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: {
+      session: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              role: true
+            }
+          }
+        }
+      }
+    }
+  });
+
+  if (!existing) {
+    return { status: 'invalid' };
+  }
+
+  const { session } = existing;
+
+  if (existing.rotatedAt) {
+    await revokeSession(session.id, 'refresh_token_reuse');
+    return { status: 'reused' };
+  }
+
+  if (session.revokedAt || session.expiresAt <= new Date()) {
+    return { status: 'invalid' };
+  }
+
+  const nextRefreshToken = generateRefreshToken();
+
+  // Only rotate if nobody else rotated this token in the meantime
+  const rotated = await db.refreshToken.updateMany({
+    where: { id: existing.id, rotatedAt: null },
+    data: { rotatedAt: new Date() }
+  });
+
+  if (rotated.count === 0) {
+    await revokeSession(session.id, 'refresh_token_reuse');
+    return { status: 'reused' };
+  }
+
+  await db.session.update({
+    where: { id: session.id },
+    data: {
+      lastUsedAt: new Date(),
+      userAgent: request.headers.get('user-agent') ?? session.userAgent,
+      ipAddress: getClientIp(request) ?? session.ipAddress,
+      refreshTokens: {
+        create: {
+          tokenHash: hashToken(nextRefreshToken)
+        }
+      }
+    }
+  });
+
+  return {
+    status: 'ok',
+    tokens: {
+      token: generateToken(session.user, session.id),
+      refreshToken: nextRefreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      sessionId: session.id
+    }
+  };
+}
+
+export async function markSessionMfaVerified(sessionId: string) {
+  await db.session.update({
+    where: { id: sessionId },
+    data: { mfaVerifiedAt: new Date() }
+  });
+}
+
+export async function revokeSession(sessionId: string, reason: string) {
+  await db.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: {
+      revokedAt: new Date(),
+      revokedReason: reason
+    }
+  });
+}
+
+export async function revokeAllSessions(
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+) {
+  const result = await db.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {})
+    },
+    data: {
+      revokedAt: new Date(),
+      revokedReason: reason
+    }
+  });
+
+  return result.count;
+}
+
+export async function listActiveSessions(userId: string) {
+  return db.session.findMany({
+    where: {
+      userId,
+      impersonatorId: null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true
+    },
+    orderBy: { lastUsedAt: 'desc' }
+  });
+}
@@ -0,0 +1,118 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30 second steps),
+// the variant every authenticator app supports
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+}
+
+// RFC 4226 HOTP value for a given counter
+export function generateHotp(secret: string, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+
+  return binary.toString().padStart(TOTP_DIGITS, '0');
+}
+
+export function generateTotp(secret: string, now = Date.now()): string {
+  return generateHotp(secret, currentTotpStep(now));
+}
+
+// Returns the matching time step, or null. One step of drift either way is
+// accepted to tolerate clock skew; callers should reject steps at or below the
+// last one used so a code can't be replayed.
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { window?: number; now?: number } = {}
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const window = options.window ?? 1;
+  const step = currentTotpStep(options.now);
+
+  for (let drift = -window; drift <= window; drift++) {
+    const candidate = generateHotp(secret, step + drift);
+    if (timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+      return step + drift;
+    }
+  }
+
+  return null;
+}
+
+// otpauth:// URI understood by authenticator apps; render it as a QR code
+export function buildOtpAuthUri(params: { secret: string; accountName: string; issuer: string }): string {
+  const label = encodeURIComponent(`${params.issuer}:${params.accountName}`);
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  });
+
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
@@ -0,0 +1,196 @@
+import { randomBytes } from 'crypto';
+import { db } from '@/lib/db';
+import { signPurposeToken, verifyPurposeToken } from '@/lib/auth';
+import { hashToken } from '@/lib/sessions';
+import { verifyTotp } from '@/lib/totp';
+import { appUrl, sendMail } from '@/lib/mailer';
+import { rateLimit } from '@/lib/rate-limit';
+
+export const TWO_FACTOR_ISSUER = 'Snazo';
+export const MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+const MFA_CHALLENGE_PURPOSE = 'mfa-challenge';
+const SETUP_PURPOSE = 'two-factor-setup';
+const SETUP_TTL_SECONDS = 30 * 60;
+const RECOVERY_CODE_COUNT = 10;
+const MFA_ATTEMPT_LIMIT = 5;
+const MFA_ATTEMPT_WINDOW_MS = 5 * 60 * 1000;
+
+// Issued after a correct password when the account has two-factor enabled;
+// it proves the first factor only and is exchanged at /api/auth/2fa/verify
+export function createMfaChallengeToken(userId: string): string {
+  return signPurposeToken(MFA_CHALLENGE_PURPOSE, { sub: userId }, MFA_CHALLENGE_TTL_SECONDS);
+}
+
+export function readMfaChallengeToken(token: string): { sub: string } | null {
+  return verifyPurposeToken<{ sub: string }>(token, MFA_CHALLENGE_PURPOSE);
+}
+
+// A 6-digit code is only safe behind a tight attempt limit. Every route
+// that checks a code or recovery code counts against the same per-user
+// budget, so spreading guesses across them doesn't help.
+export function limitMfaAttempts(userId: string) {
+  return rateLimit(`mfa:${userId}`, {
+    limit: MFA_ATTEMPT_LIMIT,
+    windowMs: MFA_ATTEMPT_WINDOW_MS
+  });
+}
+
+// Identifies the pending secret in a setup token without revealing it
+function secretFingerprint(secret: string): string {
+  return hashToken(secret).slice(0, 16);
+}
+
+// Enrollment is confirmed from the account's inbox as well as with a code
+// from the authenticator, so a stolen password alone can't enroll the
+// attacker's authenticator and pass admin checks with it. The token is
+// bound to the pending secret, so starting setup again replaces it.
+export async function sendTwoFactorSetupEmail(
+  user: { id: string; email: string; name?: string | null },
+  secret: string
+) {
+  const token = signPurposeToken(
+    SETUP_PURPOSE,
+    { sub: user.id, secret: secretFingerprint(secret) },
+    SETUP_TTL_SECONDS
+  );
+  const setupUrl = appUrl(`/two-factor-setup?token=${encodeURIComponent(token)}`);
+
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm two-factor authentication for your Snazo account',
+    text: [
+      `Hi${user.name ? ` ${user.name}` : ''},`,
+      '',
+      'Two-factor authentication is being set up on your account. To finish, open the link below',
+      'and enter a code from your authenticator app:',
+      setupUrl,
+      '',
+      'The link expires in 30 minutes. If you did not start this, change your password now.'
+    ].join('\n')
+  });
+}
+
+export function verifyTwoFactorSetupToken(
+  token: string,
+  user: { id: string; twoFactorSecret: string | null }
+): boolean {
+  const payload = verifyPurposeToken<{ sub: string; secret: string }>(token, SETUP_PURPOSE);
+
+  return !!payload &&
+    !!user.twoFactorSecret &&
+    payload.sub === user.id &&
+    payload.secret === secretFingerprint(user.twoFactorSecret);
+}
+
+export async function sendTwoFactorEnabledNotice(user: { email: string; name?: string | null }) {
+  await sendMail({
+    to: user.email,
+    subject: 'Two-factor authentication enabled on your Snazo account',
+    text: [
+      `Hi${user.name ? ` ${user.name}` : ''},`,
+      '',
+      'Two-factor authentication was just enabled on your Snazo account.',
+      'If this wasn\'t you, change your password and contact support immediately.'
+    ].join('\n')
+  });
+}
+
+export async function sendTwoFactorDisabledNotice(user: { email: string; name?: string | null }) {
+  await sendMail({
+    to: user.email,
+    subject: 'Two-factor authentication disabled on your Snazo account',
+    text: [
+      `Hi${user.name ? ` ${user.name}` : ''},`,
+      '',
+      'Two-factor authentication was just turned off on your Snazo account.',
+      'If this wasn\'t you, change your password and contact support immediately.'
+    ].join('\n')
+  });
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Replaces any existing recovery codes; the plaintext codes are only ever
+// returned here
+export async function generateRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await db.$transaction([
+    db.twoFactorRecoveryCode.deleteMany({
+      where: { userId }
+    }),
+    db.twoFactorRecoveryCode.createMany({
+      data: codes.map(code => ({
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code))
+      }))
+    })
+  ]);
+
+  return codes;
+}
+
+export async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const result = await db.twoFactorRecoveryCode.updateMany({
+    where: {
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+      usedAt: null
+    },
+    data: { usedAt: new Date() }
+  });
+
+  return result.count > 0;
+}
+
+// Checks a TOTP code against the user's secret and records the time step so
+// the same code can't be used twice
+export async function verifyUserTotp(
+  user: { id: string; twoFactorSecret: string | null; twoFactorLastUsedStep: number | null },
+  code: string
+): Promise<boolean> {
+  if (!user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+
+  if (step === null || (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep)) {
+    return false;
+  }
+
+  const updated = await db.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [
+        { twoFactorLastUsedStep: null },
+        { twoFactorLastUsedStep: { lt: step } }
+      ]
+    },
+    data: { twoFactorLastUsedStep: step }
+  });
+
+  return updated.count > 0;
+}
+
+// Accepts either a current TOTP code or an unused recovery code
+export async function verifySecondFactor(
+  user: { id: string; twoFactorSecret: string | null; twoFactorLastUsedStep: number | null },
+  input: { code?: string; recoveryCode?: string }
+): Promise<boolean> {
+  if (input.code) {
+    return verifyUserTotp(user, input.code);
+  }
+
+  if (input.recoveryCode) {
+    return consumeRecoveryCode(user.id, input.recoveryCode);
+  }
+
+  return false;
+}
@@ -0,0 +1,29 @@
+import { join } from 'path';
+
+// Files from /api/admin/upload live in public/uploads and are served from
+// /uploads/<filename>
+export const UPLOADS_DIR = join(process.cwd(), 'public', 'uploads');
+export const UPLOADS_URL_PREFIX = '/uploads/';
+
+// Upload filenames only ever contain these characters, which also rules out
+// path traversal
+const UPLOAD_FILENAME = /^[A-Za-z0-9][A-Za-z0-9.-]*$/;
+
+export function uploadUrl(filename: string): string {
+  return `${UPLOADS_URL_PREFIX}${filename}`;
+}
+
+// Path on disk of an uploaded file's URL, or null if the URL is not an upload
+export function resolveUploadPath(url: string): string | null {
+  if (!url.startsWith(UPLOADS_URL_PREFIX)) {
+    return null;
+  }
+
+  const filename = url.slice(UPLOADS_URL_PREFIX.length);
+
+  if (!UPLOAD_FILENAME.test(filename)) {
+    return null;
+  }
+
+  return join(UPLOADS_DIR, filename);
+}
@@ -0,0 +1,104 @@
+import { Prisma, ProductVariant } from '@prisma/client';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+
+// Option values such as { "weight": "1kg" } or { "pack": "6 x 400g" }
+export const variantOptionsSchema = z.record(z.string().min(1), z.string().min(1));
+
+export const variantSchema = z.object({
+  name: z.string().min(1),
+  options: variantOptionsSchema.default({}),
+  sku: z.string().min(1).optional(),
+  price: z.number().positive(),
+  originalPrice: z.number().positive().optional(),
+  stock: z.number().int().min(0).default(0),
+  position: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+});
+
+export const variantUpdateSchema = z.object({
+  name: z.string().min(1).optional(),
+  options: variantOptionsSchema.optional(),
+  sku: z.string().min(1).nullable().optional(),
+  price: z.number().positive().optional(),
+  originalPrice: z.number().positive().nullable().optional(),
+  stock: z.number().int().min(0).optional(),
+  position: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+});
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+// Variants with `options` decoded for API responses
+export function toPublicVariant(variant: ProductVariant) {
+  let options: Record<string, string> = {};
+
+  try {
+    options = JSON.parse(variant.options);
+  } catch {
+    // Leave malformed options empty rather than failing the response
+  }
+
+  return { ...variant, options };
+}
+
+// Keeps Product.stock equal to the total of its active variants, so stock
+// filters and inventory metrics on products stay meaningful
+export async function syncProductStock(productId: string, client: DbClient = db) {
+  const variants = await client.productVariant.findMany({
+    where: { productId },
+    select: { stock: true, isActive: true }
+  });
+
+  if (variants.length === 0) {
+    return;
+  }
+
+  const stock = variants
+    .filter(variant => variant.isActive)
+    .reduce((sum, variant) => sum + variant.stock, 0);
+
+  await client.product.update({
+    where: { id: productId },
+    data: { stock }
+  });
+}
+
+// Moves stock for an order line: on the variant (and the product total)
+// when there is one, otherwise on the product
+export async function adjustStock(
+  item: { productId: string; variantId: string | null },
+  delta: number,
+  client: DbClient = db
+) {
+  if (item.variantId) {
+    await client.productVariant.update({
+      where: { id: item.variantId },
+      data: { stock: { increment: delta } }
+    });
+    await syncProductStock(item.productId, client);
+    return;
+  }
+
+  await client.product.update({
+    where: { id: item.productId },
+    data: { stock: { increment: delta } }
+  });
+}
+
+// Current stock available for an order line
+export async function availableStock(item: { productId: string; variantId: string | null }) {
+  if (item.variantId) {
+    const variant = await db.productVariant.findUnique({
+      where: { id: item.variantId },
+      select: { stock: true }
+    });
+    return variant?.stock ?? 0;
+  }
+
+  const product = await db.product.findUnique({
+    where: { id: item.productId },
+    select: { stock: true }
+  });
+  return product?.stock ?? 0;
+}